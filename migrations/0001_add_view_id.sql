@@ -0,0 +1,7 @@
+-- Read-only links: each list gets a second ULID that can only view it.
+-- Lists created before this get theirs the first time someone asks for a view link.
+
+ALTER TABLE settlement_lists ADD COLUMN view_id TEXT;
+
+-- Read-only links are looked up by view ID
+CREATE UNIQUE INDEX IF NOT EXISTS idx_settlement_lists_view_id ON settlement_lists(view_id);
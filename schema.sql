@@ -1,5 +1,6 @@
 -- GroupPayback D1 Database Schema
 -- Stores settlement lists that have been upgraded from URL storage
+-- Run once on a new database, then apply migrations/ (see the README)
 
 CREATE TABLE IF NOT EXISTS settlement_lists (
   id TEXT PRIMARY KEY,              -- ULID (26 chars, sortable by creation time)
@@ -12,6 +13,9 @@ CREATE TABLE IF NOT EXISTS settlement_lists (
 -- Index for sorting by creation time (useful for future list management)
 CREATE INDEX IF NOT EXISTS idx_settlement_lists_created_at ON settlement_lists(created_at);
 
+-- Later columns (view_id for read-only links) are added by the files in migrations/,
+-- which run on new and existing databases alike
+
 -- Future: Stripe integration columns (commented out for now)
 -- ALTER TABLE settlement_lists ADD COLUMN stripe_customer_id TEXT;
 -- ALTER TABLE settlement_lists ADD COLUMN stripe_subscription_id TEXT;
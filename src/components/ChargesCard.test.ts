@@ -0,0 +1,41 @@
+// @vitest-environment jsdom
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mount } from '@vue/test-utils'
+import ChargesCard from './ChargesCard.vue'
+import ExchangeRates from './ExchangeRates.vue'
+import { useLocale } from '../composables/useLocale'
+
+describe('decimal-comma inputs', () => {
+  beforeEach(() => {
+    useLocale().setLocale('de-DE')
+  })
+
+  afterEach(() => {
+    useLocale().setLocale('')
+  })
+
+  it('reads a tax percentage typed with a comma', async () => {
+    const wrapper = mount(ChargesCard, { props: { charges: { tipPercent: 10 }, currency: 'EUR' } })
+    const tax = wrapper.findAll('input')[0]!
+    await tax.setValue('8,5')
+
+    expect(wrapper.emitted('update')).toEqual([[{ tipPercent: 10, taxPercent: 8.5 }]])
+    expect((wrapper.findAll('input')[1]!.element as HTMLInputElement).value).toBe('10')
+  })
+
+  it('puts back a percentage it can\'t read', async () => {
+    const wrapper = mount(ChargesCard, { props: { charges: { taxPercent: 8.5 }, currency: 'EUR' } })
+    const tax = wrapper.findAll('input')[0]!
+    await tax.setValue('1,2,3')
+
+    expect(wrapper.emitted('update')).toBeUndefined()
+    expect((tax.element as HTMLInputElement).value).toBe('8,5')
+  })
+
+  it('reads an exchange rate typed with a comma', async () => {
+    const wrapper = mount(ExchangeRates, { props: { currency: 'EUR', foreignCurrencies: ['USD'], rates: {} } })
+    await wrapper.find('input').setValue('1,08')
+
+    expect(wrapper.emitted('setRate')).toEqual([['USD', 1.08]])
+  })
+})
@@ -0,0 +1,70 @@
+// @vitest-environment jsdom
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mount } from '@vue/test-utils'
+import SettlementList from './SettlementList.vue'
+import { _testing } from '../composables/useSettlements'
+import { useLocale } from '../composables/useLocale'
+import type { AppState, RecordedPayment } from '../types'
+
+const { calculateSettlements } = _testing
+
+describe('recording a payment', () => {
+  const state: AppState = {
+    people: [
+      { id: 'a', name: 'Alice', items: [{ id: 'i1', name: 'Hotel', amountCents: 6000 }] },
+      { id: 'b', name: 'Bob', items: [] }
+    ]
+  }
+
+  function mountList(stateToShow: AppState) {
+    const { settlements } = calculateSettlements(stateToShow)
+    return mount(SettlementList, {
+      props: {
+        settlements,
+        isCalculating: false,
+        currency: 'USD',
+        people: stateToShow.people,
+        roundingAdjustments: [],
+        strategy: 'greedy',
+        paymentsMade: stateToShow.paymentsMade ?? [],
+        chargeShares: [],
+        breakdowns: []
+      }
+    })
+  }
+
+  beforeEach(() => {
+    useLocale().setLocale('en-US')
+  })
+
+  afterEach(() => {
+    useLocale().setLocale('')
+  })
+
+  it('records part of a settlement and leaves the rest owed', async () => {
+    const wrapper = mountList(state)
+    await wrapper.find('button[title="Record all or part of this payment as made"]').trigger('click')
+
+    const amount = wrapper.find('input[aria-label="Amount paid"]')
+    expect((amount.element as HTMLInputElement).value).toBe('30.00')
+    await amount.setValue('12.50')
+    await wrapper.find('input[aria-label="Date paid"]').setValue('2026-03-01')
+    await wrapper.find('form').trigger('submit')
+
+    expect(wrapper.emitted('markPaid')).toEqual([['b', 'a', 1250, '2026-03-01']])
+
+    const payment: RecordedPayment = { id: 'r1', from: 'b', to: 'a', amountCents: 1250, date: '2026-03-01' }
+    const { settlements } = calculateSettlements({ ...state, paymentsMade: [payment] })
+    expect(settlements).toEqual([{ from: 'b', to: 'a', amountCents: 1750 }])
+  })
+
+  it('asks again when the amount is unreadable', async () => {
+    const wrapper = mountList(state)
+    await wrapper.find('button[title="Record all or part of this payment as made"]').trigger('click')
+    await wrapper.find('input[aria-label="Amount paid"]').setValue('1.2.3')
+    await wrapper.find('form').trigger('submit')
+
+    expect(wrapper.emitted('markPaid')).toBeUndefined()
+    expect(wrapper.text()).toContain('Enter the amount that was paid')
+  })
+})
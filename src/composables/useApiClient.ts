@@ -1,5 +1,5 @@
 import { ref, watch, type Ref } from 'vue'
-import type { AppState, ApiListResponse, ApiErrorResponse } from '../types'
+import type { AppState, ApiListResponse, ApiViewResponse, ApiErrorResponse } from '../types'
 
 const API_BASE = '/api'
 
@@ -33,6 +33,26 @@ export function useApiClient() {
     return (await response.json()) as ApiListResponse
   }
 
+  /**
+   * Create a new list from an existing one, keeping its people and payment handles
+   *
+   * @param keepItems - Copy the items and recorded payments too, instead of starting empty
+   */
+  async function forkList(id: string, keepItems: boolean): Promise<ApiListResponse> {
+    const response = await fetch(`${API_BASE}/lists/${id}/fork`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ keepItems }),
+    })
+
+    if (!response.ok) {
+      const error = (await response.json()) as ApiErrorResponse
+      throw new Error(error.error || 'Failed to duplicate list')
+    }
+
+    return (await response.json()) as ApiListResponse
+  }
+
   /**
    * Get a list by ID
    */
@@ -57,6 +77,30 @@ export function useApiClient() {
     }
   }
 
+  /**
+   * Get a list through its read-only link
+   */
+  async function getView(viewId: string): Promise<ApiViewResponse> {
+    isLoading.value = true
+    loadError.value = null
+
+    try {
+      const response = await fetch(`${API_BASE}/views/${viewId}`)
+
+      if (!response.ok) {
+        const error = (await response.json()) as ApiErrorResponse
+        throw new Error(error.error || 'Failed to load list')
+      }
+
+      return (await response.json()) as ApiViewResponse
+    } catch (err) {
+      loadError.value = err instanceof Error ? err.message : 'Failed to load list'
+      throw err
+    } finally {
+      isLoading.value = false
+    }
+  }
+
   /**
    * Update an existing list
    */
@@ -85,6 +129,18 @@ export function useApiClient() {
     return (await response.json()) as ApiListResponse
   }
 
+  /**
+   * Delete a list from the database
+   */
+  async function deleteList(id: string): Promise<void> {
+    const response = await fetch(`${API_BASE}/lists/${id}`, { method: 'DELETE' })
+
+    if (!response.ok) {
+      const error = (await response.json()) as ApiErrorResponse
+      throw new Error(error.error || 'Failed to delete list')
+    }
+  }
+
   /**
    * Create an auto-save watcher for ULID mode
    *
@@ -167,8 +223,11 @@ export function useApiClient() {
     isLoading,
     loadError,
     createList,
+    forkList,
     getList,
+    getView,
     updateList,
+    deleteList,
     createAutoSaver,
   }
 }
@@ -0,0 +1,46 @@
+import { ref, computed } from 'vue'
+
+const LOCALE_KEY = 'grouppayback_locale'
+
+function loadLocalePreference(): string {
+  try {
+    return localStorage.getItem(LOCALE_KEY) ?? ''
+  } catch {
+    return ''
+  }
+}
+
+// Shared by every component, so changing it reformats every amount at once
+const storedLocale = ref(loadLocalePreference())
+
+/**
+ * Composable for the number format amounts are shown and typed in. It's a preference
+ * of this browser, not part of the split, since people sharing a split may write
+ * numbers differently.
+ */
+export function useLocale() {
+  // The picked locale, or undefined to follow the browser
+  const locale = computed(() => storedLocale.value || undefined)
+
+  /**
+   * Set the locale to use, or '' to follow the browser
+   */
+  function setLocale(code: string): void {
+    storedLocale.value = code
+    try {
+      if (code) {
+        localStorage.setItem(LOCALE_KEY, code)
+      } else {
+        localStorage.removeItem(LOCALE_KEY)
+      }
+    } catch {
+      // Ignore storage errors (private browsing, etc.)
+    }
+  }
+
+  return {
+    locale,
+    selectedLocale: computed(() => storedLocale.value),
+    setLocale
+  }
+}
@@ -0,0 +1,619 @@
+import { describe, it, expect } from 'vitest'
+import { _testing } from './useSettlements'
+import type { Person, Settlement } from '../types'
+
+const { allocateCents, calculateSettlements, matchBalances, matchBalancesMinimal } = _testing
+
+function sumAllocation(allocation: Map<string, number>): number {
+  return [...allocation.values()].reduce((sum, cents) => sum + cents, 0)
+}
+
+function balancesOf(cents: number[]) {
+  return cents.map((balanceCents, i) => ({ id: `p${i}`, balanceCents }))
+}
+
+/**
+ * Applies settlements to the starting balances and returns what is left per person
+ */
+function applySettlements(balances: { id: string; balanceCents: number }[], settlements: Settlement[]) {
+  const remaining = new Map(balances.map(b => [b.id, b.balanceCents]))
+  for (const s of settlements) {
+    remaining.set(s.from, remaining.get(s.from)! + s.amountCents)
+    remaining.set(s.to, remaining.get(s.to)! - s.amountCents)
+  }
+  return [...remaining.values()]
+}
+
+function sumSettlements(settlements: Settlement[]): number {
+  return settlements.reduce((sum, s) => sum + s.amountCents, 0)
+}
+
+describe('Settlements', () => {
+  describe('allocateCents', () => {
+    it('assigns the odd cent of $100.00 / 3 to the lowest id', () => {
+      const { allocation, leftovers } = allocateCents(10000, [
+        { id: 'c', weight: 1 },
+        { id: 'a', weight: 1 },
+        { id: 'b', weight: 1 }
+      ])
+
+      expect(allocation.get('a')).toBe(3334)
+      expect(allocation.get('b')).toBe(3333)
+      expect(allocation.get('c')).toBe(3333)
+      expect([...leftovers]).toEqual(['a'])
+    })
+
+    it('assigns two leftover cents to the two lowest ids', () => {
+      const { allocation, leftovers } = allocateCents(200, [
+        { id: 'a', weight: 1 },
+        { id: 'b', weight: 1 },
+        { id: 'c', weight: 1 }
+      ])
+
+      expect(allocation.get('a')).toBe(67)
+      expect(allocation.get('b')).toBe(67)
+      expect(allocation.get('c')).toBe(66)
+      expect(leftovers).toEqual(new Set(['a', 'b']))
+    })
+
+    it('gives leftover cents to the largest remainders before falling back to id order', () => {
+      // Exact shares: a = 33.33, b = 66.67 -> b has the larger remainder
+      const { allocation, leftovers } = allocateCents(100, [
+        { id: 'a', weight: 1 },
+        { id: 'b', weight: 2 }
+      ])
+
+      expect(allocation.get('a')).toBe(33)
+      expect(allocation.get('b')).toBe(67)
+      expect([...leftovers]).toEqual(['b'])
+    })
+
+    it('has no leftovers when the amount divides evenly', () => {
+      const { allocation, leftovers } = allocateCents(900, [
+        { id: 'a', weight: 1 },
+        { id: 'b', weight: 1 },
+        { id: 'c', weight: 1 }
+      ])
+
+      expect([...allocation.values()]).toEqual([300, 300, 300])
+      expect(leftovers.size).toBe(0)
+    })
+
+    it('splits a single cent among many people', () => {
+      const shares = ['e', 'd', 'c', 'b', 'a'].map(id => ({ id, weight: 1 }))
+      const { allocation } = allocateCents(1, shares)
+
+      expect(allocation.get('a')).toBe(1)
+      expect(sumAllocation(allocation)).toBe(1)
+    })
+
+    it('handles zero amounts', () => {
+      const { allocation, leftovers } = allocateCents(0, [
+        { id: 'a', weight: 1 },
+        { id: 'b', weight: 1 }
+      ])
+
+      expect(sumAllocation(allocation)).toBe(0)
+      expect(leftovers.size).toBe(0)
+    })
+
+    it('honors fractional weights exactly', () => {
+      // 2 + 1 + 0.5 = 3.5 shares of $35.00
+      const { allocation } = allocateCents(3500, [
+        { id: 'couple', weight: 2 },
+        { id: 'adult', weight: 1 },
+        { id: 'kid', weight: 0.5 }
+      ])
+
+      expect(allocation.get('couple')).toBe(2000)
+      expect(allocation.get('adult')).toBe(1000)
+      expect(allocation.get('kid')).toBe(500)
+    })
+
+    it('gives nothing to zero-weight shares', () => {
+      const { allocation } = allocateCents(1001, [
+        { id: 'a', weight: 0 },
+        { id: 'b', weight: 1 }
+      ])
+
+      expect(allocation.get('a')).toBe(0)
+      expect(allocation.get('b')).toBe(1001)
+    })
+
+    it('falls back to an equal split when every weight is zero', () => {
+      const { allocation } = allocateCents(101, [
+        { id: 'a', weight: 0 },
+        { id: 'b', weight: 0 }
+      ])
+
+      expect(allocation.get('a')).toBe(51)
+      expect(allocation.get('b')).toBe(50)
+    })
+
+    it('allocates negative amounts symmetrically', () => {
+      const { allocation } = allocateCents(-100, [
+        { id: 'a', weight: 1 },
+        { id: 'b', weight: 1 },
+        { id: 'c', weight: 1 }
+      ])
+
+      expect(allocation.get('a')).toBe(-34)
+      expect(allocation.get('b')).toBe(-33)
+      expect(allocation.get('c')).toBe(-33)
+    })
+
+    it('is independent of input order', () => {
+      const forward = allocateCents(1000, [
+        { id: 'a', weight: 1 },
+        { id: 'b', weight: 1.5 },
+        { id: 'c', weight: 1 }
+      ])
+      const reversed = allocateCents(1000, [
+        { id: 'c', weight: 1 },
+        { id: 'b', weight: 1.5 },
+        { id: 'a', weight: 1 }
+      ])
+
+      for (const id of ['a', 'b', 'c']) {
+        expect(forward.allocation.get(id)).toBe(reversed.allocation.get(id))
+      }
+    })
+
+    it('always assigns every cent', () => {
+      const weights = [1, 0.5, 2, 1.25, 3]
+      for (let people = 1; people <= weights.length; people++) {
+        for (let total = 0; total <= 1000; total += 7) {
+          const shares = weights.slice(0, people).map((weight, i) => ({ id: `p${i}`, weight }))
+          const { allocation } = allocateCents(total, shares)
+
+          expect(sumAllocation(allocation)).toBe(total)
+          for (const cents of allocation.values()) {
+            expect(cents).toBeGreaterThanOrEqual(0)
+          }
+        }
+      }
+    })
+  })
+
+  describe('calculateSettlements', () => {
+    it('settles a $100.00 bill among three people to the cent', () => {
+      const people: Person[] = [
+        { id: 'a', name: 'Alice', items: [{ id: 'i1', name: 'Bill', amountCents: 10000 }] },
+        { id: 'b', name: 'Bob', items: [] },
+        { id: 'c', name: 'Charlie', items: [] }
+      ]
+
+      const { settlements, roundingAdjustments } = calculateSettlements({ people })
+
+      // Alice absorbs the odd cent, so she is owed $66.66
+      expect(sumSettlements(settlements)).toBe(6666)
+      expect(settlements).toEqual([
+        { from: 'b', to: 'a', amountCents: 3333 },
+        { from: 'c', to: 'a', amountCents: 3333 }
+      ])
+      expect(roundingAdjustments).toEqual([{ personId: 'a', cents: 1 }])
+    })
+
+    it('reports who absorbed odd cents across several items', () => {
+      const people: Person[] = [
+        {
+          id: 'a',
+          name: 'Alice',
+          items: [
+            { id: 'i1', name: 'Taxi', amountCents: 1000 },
+            { id: 'i2', name: 'Snacks', amountCents: 200 }
+          ]
+        },
+        { id: 'b', name: 'Bob', items: [] },
+        { id: 'c', name: 'Charlie', items: [] }
+      ]
+
+      const { roundingAdjustments } = calculateSettlements({ people })
+
+      expect(roundingAdjustments).toEqual([
+        { personId: 'a', cents: 2 },
+        { personId: 'b', cents: 1 }
+      ])
+    })
+
+    it('settles creditors exactly what they are owed', () => {
+      const amounts = [1, 99, 1001, 3333, 9999, 10000, 12345]
+      for (const amount of amounts) {
+        const people: Person[] = [
+          { id: 'a', name: 'Alice', items: [{ id: 'i1', name: 'Hotel', amountCents: amount }] },
+          { id: 'b', name: 'Bob', items: [{ id: 'i2', name: 'Food', amountCents: amount % 77 }], weight: 2 },
+          { id: 'c', name: 'Charlie', items: [], weight: 0.5 },
+          { id: 'd', name: 'Dana', items: [] }
+        ]
+
+        const { settlements } = calculateSettlements({ people })
+        const received = new Map<string, number>()
+        const paid = new Map<string, number>()
+        for (const s of settlements) {
+          received.set(s.to, (received.get(s.to) ?? 0) + s.amountCents)
+          paid.set(s.from, (paid.get(s.from) ?? 0) + s.amountCents)
+        }
+
+        // Nobody both pays and receives, and money in equals money out
+        const totalReceived = [...received.values()].reduce((a, b) => a + b, 0)
+        const totalPaid = [...paid.values()].reduce((a, b) => a + b, 0)
+        expect(totalReceived).toBe(totalPaid)
+        for (const id of received.keys()) {
+          expect(paid.has(id)).toBe(false)
+        }
+      }
+    })
+
+    it('splits items only among their participants', () => {
+      const people: Person[] = [
+        {
+          id: 'a',
+          name: 'Alice',
+          items: [{ id: 'i1', name: 'Boat tour', amountCents: 9000, participants: ['a', 'b', 'c'] }]
+        },
+        { id: 'b', name: 'Bob', items: [] },
+        { id: 'c', name: 'Charlie', items: [] },
+        { id: 'd', name: 'Dana', items: [] }
+      ]
+
+      const { settlements } = calculateSettlements({ people })
+
+      expect(settlements).toEqual([
+        { from: 'b', to: 'a', amountCents: 3000 },
+        { from: 'c', to: 'a', amountCents: 3000 }
+      ])
+    })
+
+    it('ignores unnamed people', () => {
+      const people: Person[] = [
+        { id: 'a', name: 'Alice', items: [{ id: 'i1', name: 'Dinner', amountCents: 1001 }] },
+        { id: 'b', name: 'Bob', items: [] },
+        { id: 'c', name: '  ', items: [{ id: 'i2', name: 'Ignored', amountCents: 5000 }] }
+      ]
+
+      const { settlements } = calculateSettlements({ people })
+
+      expect(settlements).toEqual([{ from: 'b', to: 'a', amountCents: 500 }])
+    })
+
+    it('subtracts payments already made from balances', () => {
+      const people: Person[] = [
+        { id: 'a', name: 'Alice', items: [{ id: 'i1', name: 'Hotel', amountCents: 9000 }] },
+        { id: 'b', name: 'Bob', items: [] },
+        { id: 'c', name: 'Charlie', items: [] }
+      ]
+
+      const { settlements } = calculateSettlements({
+        people,
+        paymentsMade: [
+          { id: 'r1', from: 'b', to: 'a', amountCents: 3000, date: '2025-06-01' },
+          { id: 'r2', from: 'c', to: 'a', amountCents: 1000, date: '2025-06-02' }
+        ]
+      })
+
+      expect(settlements).toEqual([{ from: 'c', to: 'a', amountCents: 2000 }])
+    })
+
+    it('ignores payments involving people who are no longer named', () => {
+      const people: Person[] = [
+        { id: 'a', name: 'Alice', items: [{ id: 'i1', name: 'Hotel', amountCents: 2000 }] },
+        { id: 'b', name: 'Bob', items: [] }
+      ]
+
+      const { settlements } = calculateSettlements({
+        people,
+        paymentsMade: [{ id: 'r1', from: 'gone', to: 'a', amountCents: 500, date: '2025-06-01' }]
+      })
+
+      expect(settlements).toEqual([{ from: 'b', to: 'a', amountCents: 1000 }])
+    })
+
+    it('keeps people with the same name apart', () => {
+      const people: Person[] = [
+        { id: 'a1', name: 'Alex', items: [{ id: 'i1', name: 'Hotel', amountCents: 3000 }] },
+        { id: 'a2', name: 'Alex', items: [] },
+        { id: 'b', name: 'Bob', items: [] }
+      ]
+
+      const { settlements } = calculateSettlements({ people })
+
+      expect(settlements).toEqual([
+        { from: 'a2', to: 'a1', amountCents: 1000 },
+        { from: 'b', to: 'a1', amountCents: 1000 }
+      ])
+    })
+
+    it('converts items in other currencies into the event currency', () => {
+      const people: Person[] = [
+        { id: 'a', name: 'Alice', items: [{ id: 'i1', name: 'Gelato', amountCents: 1000, currency: 'EUR' }] },
+        { id: 'b', name: 'Bob', items: [{ id: 'i2', name: 'Taxi', amountCents: 1000 }] }
+      ]
+
+      const { settlements } = calculateSettlements({ people, exchangeRates: { EUR: 1.1 } })
+
+      // Alice paid $11.00, Bob $10.00 -> each owes $10.50
+      expect(settlements).toEqual([{ from: 'b', to: 'a', amountCents: 50 }])
+    })
+
+    it('converts between currencies with different minor units', () => {
+      const people: Person[] = [
+        { id: 'a', name: 'Alice', items: [{ id: 'i1', name: 'Ramen', amountCents: 1500, currency: 'JPY' }] },
+        { id: 'b', name: 'Bob', items: [{ id: 'i2', name: 'Taxi', amountCents: 1000 }] }
+      ]
+
+      const { settlements } = calculateSettlements({ people, exchangeRates: { JPY: 0.0068 } })
+
+      // ¥1,500 is $10.20, Bob paid $10.00 -> each owes $10.10
+      expect(settlements).toEqual([{ from: 'b', to: 'a', amountCents: 10 }])
+    })
+
+    it('leaves out items whose currency has no exchange rate', () => {
+      const people: Person[] = [
+        { id: 'a', name: 'Alice', items: [{ id: 'i1', name: 'Gelato', amountCents: 1000, currency: 'EUR' }] },
+        { id: 'b', name: 'Bob', items: [{ id: 'i2', name: 'Taxi', amountCents: 1000 }] }
+      ]
+
+      const { settlements } = calculateSettlements({ people })
+
+      expect(settlements).toEqual([{ from: 'a', to: 'b', amountCents: 500 }])
+    })
+
+    it('shares tax, tip and fees in proportion to what each person had', () => {
+      const people: Person[] = [
+        {
+          id: 'a',
+          name: 'Alice',
+          items: [
+            { id: 'i1', name: 'Steak', amountCents: 3000, participants: ['a'] },
+            { id: 'i2', name: 'Salad', amountCents: 1000, participants: ['b'] }
+          ]
+        },
+        { id: 'b', name: 'Bob', items: [] }
+      ]
+
+      const { settlements, chargeShares } = calculateSettlements({
+        people,
+        charges: { taxPercent: 10, tipPercent: 20, feeCents: 400 }
+      })
+
+      expect(chargeShares).toEqual([
+        { personId: 'a', subtotalCents: 3000, taxCents: 300, tipCents: 600, feeCents: 300 },
+        { personId: 'b', subtotalCents: 1000, taxCents: 100, tipCents: 200, feeCents: 100 }
+      ])
+      // Alice paid the whole bill, so Bob owes his salad plus his part of the extras
+      expect(settlements).toEqual([{ from: 'b', to: 'a', amountCents: 1400 }])
+    })
+
+    it('credits extras to payers in proportion to what they paid', () => {
+      const people: Person[] = [
+        { id: 'a', name: 'Alice', items: [{ id: 'i1', name: 'Dinner', amountCents: 3000 }] },
+        { id: 'b', name: 'Bob', items: [{ id: 'i2', name: 'Drinks', amountCents: 1000 }] }
+      ]
+
+      const { settlements } = calculateSettlements({ people, charges: { tipPercent: 20 } })
+
+      // Total $48.00, $24.00 each; Alice paid $36.00, Bob $12.00
+      expect(settlements).toEqual([{ from: 'b', to: 'a', amountCents: 1200 }])
+    })
+
+    it('assigns every cent of odd tax amounts', () => {
+      const people: Person[] = [
+        { id: 'a', name: 'Alice', items: [{ id: 'i1', name: 'Dinner', amountCents: 1000 }] },
+        { id: 'b', name: 'Bob', items: [] },
+        { id: 'c', name: 'Charlie', items: [] }
+      ]
+
+      const { settlements, chargeShares } = calculateSettlements({ people, charges: { taxPercent: 8.875 } })
+
+      const totalTax = chargeShares.reduce((sum, share) => sum + share.taxCents, 0)
+      expect(totalTax).toBe(89)
+      expect(sumSettlements(settlements)).toBe(1089 - 334 - 30)
+    })
+
+    it('credits a receipt to its payer and charges the people who had each item', () => {
+      const people: Person[] = [
+        {
+          id: 'a',
+          name: 'Alice',
+          items: [],
+          receipts: [
+            {
+              id: 'r1',
+              name: 'Dinner',
+              items: [
+                { id: 'i1', name: 'Pasta', amountCents: 1800, participants: ['b'] },
+                { id: 'i2', name: 'Pizza', amountCents: 1500, participants: ['c'] },
+                { id: 'i3', name: 'Wine', amountCents: 3000 }
+              ]
+            }
+          ]
+        },
+        { id: 'b', name: 'Bob', items: [] },
+        { id: 'c', name: 'Charlie', items: [] }
+      ]
+
+      const { settlements } = calculateSettlements({ people })
+
+      expect(settlements).toEqual([
+        { from: 'b', to: 'a', amountCents: 2800 },
+        { from: 'c', to: 'a', amountCents: 2500 }
+      ])
+    })
+
+    it('combines receipts with items paid directly', () => {
+      const people: Person[] = [
+        {
+          id: 'a',
+          name: 'Alice',
+          items: [{ id: 'i1', name: 'Taxi', amountCents: 1000 }],
+          receipts: [
+            { id: 'r1', name: 'Lunch', items: [{ id: 'i2', name: 'Soup', amountCents: 600, participants: ['b'] }] }
+          ]
+        },
+        { id: 'b', name: 'Bob', items: [] }
+      ]
+
+      const { settlements } = calculateSettlements({ people })
+
+      expect(settlements).toEqual([{ from: 'b', to: 'a', amountCents: 1100 }])
+    })
+
+    it('breaks each balance down into what was paid, shared and already paid back', () => {
+      const people: Person[] = [
+        { id: 'a', name: 'Alice', items: [{ id: 'i1', name: 'Dinner', amountCents: 3000 }] },
+        { id: 'b', name: 'Bob', items: [{ id: 'i2', name: 'Wine', amountCents: 1000, participants: ['b'] }] }
+      ]
+
+      const { breakdowns } = calculateSettlements({
+        people,
+        charges: { feeCents: 400 },
+        paymentsMade: [{ id: 'r1', from: 'b', to: 'a', amountCents: 500, date: '2025-01-01' }]
+      })
+
+      expect(breakdowns).toEqual([
+        {
+          personId: 'a',
+          paidCents: 3000,
+          itemShares: [{ itemId: 'i1', itemName: 'Dinner', paidBy: 'a', shareCents: 1500 }],
+          chargesPaidCents: 300,
+          chargesOwedCents: 150,
+          paymentsSentCents: 0,
+          paymentsReceivedCents: 500,
+          balanceCents: 1150
+        },
+        {
+          personId: 'b',
+          paidCents: 1000,
+          itemShares: [
+            { itemId: 'i1', itemName: 'Dinner', paidBy: 'a', shareCents: 1500 },
+            { itemId: 'i2', itemName: 'Wine', paidBy: 'b', shareCents: 1000 }
+          ],
+          chargesPaidCents: 100,
+          chargesOwedCents: 250,
+          paymentsSentCents: 500,
+          paymentsReceivedCents: 0,
+          balanceCents: -1150
+        }
+      ])
+    })
+
+    it('splits dated items among the people there that day', () => {
+      const people: Person[] = [
+        {
+          id: 'a',
+          name: 'Alice',
+          items: [
+            { id: 'i1', name: 'Cabin night 1', amountCents: 9000, date: '2025-07-01' },
+            { id: 'i2', name: 'Cabin night 2', amountCents: 6000, date: '2025-07-02' }
+          ]
+        },
+        { id: 'b', name: 'Bob', items: [] },
+        { id: 'c', name: 'Charlie', items: [], attendance: { from: '2025-07-02' } }
+      ]
+
+      const { settlements } = calculateSettlements({ people })
+
+      // Night 1: Alice and Bob $45 each; night 2: everyone $20
+      expect(settlements).toEqual([
+        { from: 'b', to: 'a', amountCents: 6500 },
+        { from: 'c', to: 'a', amountCents: 2000 }
+      ])
+    })
+
+    it('narrows chosen participants to those present and falls back when nobody was', () => {
+      const people: Person[] = [
+        {
+          id: 'a',
+          name: 'Alice',
+          items: [
+            { id: 'i1', name: 'Groceries', amountCents: 3000, participants: ['b', 'c'], date: '2025-07-05' },
+            { id: 'i2', name: 'Ferry', amountCents: 1000, participants: ['c'], date: '2025-07-01' }
+          ]
+        },
+        { id: 'b', name: 'Bob', items: [], attendance: { to: '2025-07-03' } },
+        { id: 'c', name: 'Charlie', items: [], attendance: { from: '2025-07-04', to: '2025-07-06' } }
+      ]
+
+      const { settlements } = calculateSettlements({ people })
+
+      // Only Charlie was there for the groceries; nobody chosen was there for the ferry
+      expect(settlements).toEqual([{ from: 'c', to: 'a', amountCents: 4000 }])
+    })
+
+    it('returns nothing for fewer than two named people', () => {
+      const people: Person[] = [
+        { id: 'a', name: 'Alice', items: [{ id: 'i1', name: 'Dinner', amountCents: 1000 }] }
+      ]
+
+      expect(calculateSettlements({ people })).toEqual({ settlements: [], roundingAdjustments: [], chargeShares: [], breakdowns: [] })
+    })
+  })
+
+  describe('matchBalancesMinimal', () => {
+    it('beats the greedy matcher when a subgroup nets to zero', () => {
+      const balances = balancesOf([1000, 400, -700, -400, -300])
+
+      const greedy = matchBalances(balances)
+      const minimal = matchBalancesMinimal(balances)
+
+      expect(greedy).toHaveLength(4)
+      expect(minimal).toHaveLength(3)
+      expect(minimal).toContainEqual({ from: 'p3', to: 'p1', amountCents: 400 })
+      expect(applySettlements(balances, minimal).every(cents => cents === 0)).toBe(true)
+    })
+
+    it('settles independent pairs with one payment each', () => {
+      const balances = balancesOf([500, 300, -300, -500, 200, -200])
+
+      const minimal = matchBalancesMinimal(balances)
+
+      expect(minimal).toHaveLength(3)
+      expect(applySettlements(balances, minimal).every(cents => cents === 0)).toBe(true)
+    })
+
+    it('never needs more payments than the greedy matcher', () => {
+      const cases = [
+        [100, -50, -50],
+        [600, 400, -500, -500],
+        [300, 200, 100, -100, -200, -300],
+        [1234, 766, -1000, -1000],
+        [70, 30, 25, -45, -55, -25]
+      ]
+      for (const cents of cases) {
+        const balances = balancesOf(cents)
+        const minimal = matchBalancesMinimal(balances)
+
+        expect(minimal.length).toBeLessThanOrEqual(matchBalances(balances).length)
+        expect(applySettlements(balances, minimal).every(c => c === 0)).toBe(true)
+      }
+    })
+
+    it('ignores people who are already settled', () => {
+      const balances = balancesOf([0, 250, 0, -250])
+
+      expect(matchBalancesMinimal(balances)).toEqual([{ from: 'p3', to: 'p1', amountCents: 250 }])
+    })
+
+    it('falls back to greedy above the size cutoff', () => {
+      const cents = Array.from({ length: 20 }, (_, i) => (i % 2 === 0 ? 100 + i : -(100 + i - 1)))
+      const balances = balancesOf(cents)
+
+      expect(matchBalancesMinimal(balances)).toEqual(matchBalances(balances))
+    })
+
+    it('is used when the state asks for the fewest payments', () => {
+      const people: Person[] = [
+        { id: 'a', name: 'Alice', items: [{ id: 'i1', name: 'Hotel', amountCents: 1200 }] },
+        { id: 'b', name: 'Bob', items: [{ id: 'i2', name: 'Car', amountCents: 600, participants: ['b', 'c'] }] },
+        { id: 'c', name: 'Charlie', items: [] },
+        { id: 'd', name: 'Dana', items: [] }
+      ]
+
+      const greedy = calculateSettlements({ people })
+      const minimal = calculateSettlements({ people, settlementStrategy: 'minimal' })
+
+      expect(minimal.settlements.length).toBeLessThanOrEqual(greedy.settlements.length)
+      expect(sumSettlements(minimal.settlements)).toBeGreaterThan(0)
+    })
+  })
+})
@@ -1,31 +1,271 @@
 import { computed, ref, watch, type Ref } from 'vue'
-import type { AppState, Settlement } from '../types'
-import type { Person } from '../types'
+import type { AppState, Charges, ChargeShare, ItemShare, PersonBreakdown, RoundingAdjustment, Settlement } from '../types'
+import type { LineItem, Person } from '../types'
+import { DEFAULT_CURRENCY, getCurrency } from '../lib/currency'
 
 interface PersonBalance {
-  name: string
+  id: string
   balanceCents: number
 }
 
-function calculateTotalCents(person: Person): number {
-  return person.items.reduce((sum, item) => sum + item.amountCents, 0)
+interface SettlementResult {
+  settlements: Settlement[]
+  roundingAdjustments: RoundingAdjustment[]
+  chargeShares: ChargeShare[]
+  breakdowns: PersonBreakdown[]
 }
 
-function calculateSettlements(people: Person[]): Settlement[] {
-  const validPeople = people.filter(p => p.name.trim() !== '')
+interface WeightedShare {
+  id: string
+  weight: number
+}
+
+// Weights are scaled to integers so cent allocation never touches floating point
+const WEIGHT_SCALE = 1000
+
+// The exact solver explores every subset of non-zero balances (2^n states), so
+// beyond this many people owing or owed we fall back to the greedy matcher
+const MAX_MINIMAL_SOLVER_SIZE = 16
+
+/**
+ * Converts an item's amount into the event currency using the user-entered rates.
+ * Returns null when the item is in another currency that has no usable rate yet.
+ */
+export function toBaseCents(
+  item: LineItem,
+  baseCurrency: string,
+  exchangeRates?: Record<string, number>
+): number | null {
+  if (!item.currency || item.currency === baseCurrency) return item.amountCents
+  const rate = exchangeRates?.[item.currency]
+  if (rate === undefined || !Number.isFinite(rate) || rate <= 0) return null
+  // Rates are per whole unit, so account for the two currencies' minor units
+  const scale = 10 ** (getCurrency(baseCurrency).minorUnits - getCurrency(item.currency).minorUnits)
+  return Math.round(item.amountCents * rate * scale)
+}
+
+/**
+ * Every item a person paid for: their own items plus the items on their receipts
+ */
+export function getPaidItems(person: Person): LineItem[] {
+  if (!person.receipts || person.receipts.length === 0) return person.items
+  return [...person.items, ...person.receipts.flatMap(receipt => receipt.items)]
+}
+
+function calculateTotalCents(person: Person, state: AppState): number {
+  const baseCurrency = state.currency || DEFAULT_CURRENCY
+  return getPaidItems(person).reduce((sum, item) => sum + (toBaseCents(item, baseCurrency, state.exchangeRates) ?? 0), 0)
+}
+
+/**
+ * Whether a person was at the event on an ISO date. ISO dates compare correctly as strings.
+ */
+export function isPresentOn(person: Person, date: string): boolean {
+  const { from, to } = person.attendance ?? {}
+  return (!from || from <= date) && (!to || date <= to)
+}
+
+/**
+ * Returns the people sharing an item. Items without a participant list (or whose
+ * participants have all been removed or left unnamed) are shared by everyone.
+ * Dated items are then narrowed to whoever was there that day, unless nobody was.
+ */
+function getParticipants(item: LineItem, validPeople: Person[]): Person[] {
+  let participants = validPeople
+  if (item.participants && item.participants.length > 0) {
+    const ids = new Set(item.participants)
+    const chosen = validPeople.filter(p => ids.has(p.id))
+    if (chosen.length > 0) participants = chosen
+  }
+  if (item.date) {
+    const present = participants.filter(p => isPresentOn(p, item.date!))
+    if (present.length > 0) participants = present
+  }
+  return participants
+}
+
+/**
+ * Number of shares a person counts for (a couple might be 2, a child 0.5)
+ */
+function getShareWeight(person: Person): number {
+  return person.weight ?? 1
+}
+
+/**
+ * Splits an amount between shares in proportion to their weights so that every
+ * cent is assigned. Each share first gets the floor of its exact portion; the
+ * leftover cents go one each to the largest remainders, ties broken by id so the
+ * result is deterministic. Returns the allocation and who received leftover cents.
+ *
+ * Fractional weights are scaled up to integers; integer weights (like cent
+ * subtotals) are used as-is so large amounts stay within safe integer range.
+ */
+function allocateCents(
+  totalCents: number,
+  shares: WeightedShare[]
+): { allocation: Map<string, number>; leftovers: Set<string> } {
+  const allocation = new Map<string, number>()
+  const leftovers = new Set<string>()
+  if (shares.length === 0) return { allocation, leftovers }
+
+  if (totalCents < 0) {
+    const negated = allocateCents(-totalCents, shares)
+    for (const [id, cents] of negated.allocation) allocation.set(id, -cents)
+    return { allocation, leftovers: negated.leftovers }
+  }
+
+  const scale = shares.every(share => Number.isInteger(share.weight)) ? 1 : WEIGHT_SCALE
+  let scaled = shares.map(share => ({
+    id: share.id,
+    weight: Math.max(0, Math.round(share.weight * scale))
+  }))
+  let totalWeight = scaled.reduce((sum, share) => sum + share.weight, 0)
+  // Fall back to an equal split if every share has zero weight
+  if (totalWeight === 0) {
+    scaled = scaled.map(share => ({ id: share.id, weight: 1 }))
+    totalWeight = scaled.length
+  }
+
+  let assignedCents = 0
+  const remainders = scaled.map(share => {
+    const exact = totalCents * share.weight
+    const cents = Math.floor(exact / totalWeight)
+    assignedCents += cents
+    allocation.set(share.id, cents)
+    return { id: share.id, remainder: exact % totalWeight }
+  })
+
+  remainders.sort((a, b) => b.remainder - a.remainder || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0))
+
+  for (let i = 0; i < totalCents - assignedCents; i++) {
+    const { id } = remainders[i]!
+    allocation.set(id, allocation.get(id)! + 1)
+    leftovers.add(id)
+  }
+
+  return { allocation, leftovers }
+}
+
+function hasCharges(charges?: Charges): charges is Charges {
+  return !!charges && (!!charges.taxPercent || !!charges.tipPercent || !!charges.feeCents)
+}
+
+function calculateSettlements(state: AppState): SettlementResult {
+  const validPeople = state.people.filter(p => p.name.trim() !== '')
 
   if (validPeople.length < 2) {
-    return []
+    return { settlements: [], roundingAdjustments: [], chargeShares: [], breakdowns: [] }
   }
 
-  const totalCents = validPeople.reduce((sum, p) => sum + calculateTotalCents(p), 0)
-  const fairShareCents = Math.floor(totalCents / validPeople.length)
+  // Each item is credited to whoever paid for it (receipt items to the receipt's payer) and
+  // split only among the people who shared it, in proportion to their weights.
+  // Items in another currency are converted first; ones without a rate are left out.
+  const baseCurrency = state.currency || DEFAULT_CURRENCY
+  const owedCents = new Map<string, number>(validPeople.map(p => [p.id, 0]))
+  const roundingCents = new Map<string, number>()
+  const itemShares = new Map<string, ItemShare[]>(validPeople.map(p => [p.id, []]))
+  for (const person of validPeople) {
+    for (const item of getPaidItems(person)) {
+      const amountCents = toBaseCents(item, baseCurrency, state.exchangeRates)
+      if (amountCents === null) continue
+      const participants = getParticipants(item, validPeople)
+      const { allocation, leftovers } = allocateCents(
+        amountCents,
+        participants.map(p => ({ id: p.id, weight: getShareWeight(p) }))
+      )
+      for (const [id, cents] of allocation) {
+        owedCents.set(id, owedCents.get(id)! + cents)
+        itemShares.get(id)!.push({ itemId: item.id, itemName: item.name, paidBy: person.id, shareCents: cents })
+      }
+      for (const id of leftovers) {
+        roundingCents.set(id, (roundingCents.get(id) ?? 0) + 1)
+      }
+    }
+  }
 
-  const balances: PersonBalance[] = validPeople.map(person => ({
-    name: person.name,
-    balanceCents: calculateTotalCents(person) - fairShareCents
+  const paidCents = new Map<string, number>(
+    validPeople.map(p => [p.id, calculateTotalCents(p, state)])
+  )
+  const itemsPaidCents = new Map(paidCents)
+  const itemsOwedCents = new Map(owedCents)
+
+  // Tax, tip and fees were paid alongside the items, so each is credited to payers in
+  // proportion to what they paid and charged to people in proportion to what they consumed
+  const chargeShares: ChargeShare[] = []
+  if (hasCharges(state.charges)) {
+    const subtotals = new Map(owedCents)
+    const subtotalCents = [...paidCents.values()].reduce((sum, cents) => sum + cents, 0)
+    const extras = {
+      taxCents: Math.round(subtotalCents * (state.charges.taxPercent ?? 0) / 100),
+      tipCents: Math.round(subtotalCents * (state.charges.tipPercent ?? 0) / 100),
+      feeCents: state.charges.feeCents ?? 0
+    }
+
+    const consumedShares = validPeople.map(p => ({ id: p.id, weight: subtotals.get(p.id)! }))
+    const paidShares = validPeople.map(p => ({ id: p.id, weight: paidCents.get(p.id)! }))
+    const charged = new Map<keyof typeof extras, Map<string, number>>()
+
+    for (const [kind, amountCents] of Object.entries(extras) as [keyof typeof extras, number][]) {
+      const debit = allocateCents(amountCents, consumedShares)
+      const credit = allocateCents(amountCents, paidShares)
+      for (const [id, cents] of debit.allocation) owedCents.set(id, owedCents.get(id)! + cents)
+      for (const id of debit.leftovers) roundingCents.set(id, (roundingCents.get(id) ?? 0) + 1)
+      for (const [id, cents] of credit.allocation) paidCents.set(id, paidCents.get(id)! + cents)
+      charged.set(kind, debit.allocation)
+    }
+
+    for (const person of validPeople) {
+      chargeShares.push({
+        personId: person.id,
+        subtotalCents: subtotals.get(person.id)!,
+        taxCents: charged.get('taxCents')!.get(person.id)!,
+        tipCents: charged.get('tipCents')!.get(person.id)!,
+        feeCents: charged.get('feeCents')!.get(person.id)!
+      })
+    }
+  }
+
+  // Payments already made move money from the payer's debt to the recipient's credit
+  const sentCents = new Map<string, number>(validPeople.map(p => [p.id, 0]))
+  const receivedCents = new Map<string, number>(validPeople.map(p => [p.id, 0]))
+  for (const payment of state.paymentsMade ?? []) {
+    if (!sentCents.has(payment.from) || !sentCents.has(payment.to)) continue
+    sentCents.set(payment.from, sentCents.get(payment.from)! + payment.amountCents)
+    receivedCents.set(payment.to, receivedCents.get(payment.to)! + payment.amountCents)
+  }
+
+  const breakdowns: PersonBreakdown[] = validPeople.map(person => ({
+    personId: person.id,
+    paidCents: itemsPaidCents.get(person.id)!,
+    itemShares: itemShares.get(person.id)!,
+    chargesPaidCents: paidCents.get(person.id)! - itemsPaidCents.get(person.id)!,
+    chargesOwedCents: owedCents.get(person.id)! - itemsOwedCents.get(person.id)!,
+    paymentsSentCents: sentCents.get(person.id)!,
+    paymentsReceivedCents: receivedCents.get(person.id)!,
+    balanceCents: paidCents.get(person.id)! - owedCents.get(person.id)! +
+      sentCents.get(person.id)! - receivedCents.get(person.id)!
   }))
 
+  const balances: PersonBalance[] = breakdowns.map(breakdown => ({
+    id: breakdown.personId,
+    balanceCents: breakdown.balanceCents
+  }))
+
+  const roundingAdjustments: RoundingAdjustment[] = validPeople
+    .filter(p => roundingCents.has(p.id))
+    .map(p => ({ personId: p.id, cents: roundingCents.get(p.id)! }))
+
+  const settlements = state.settlementStrategy === 'minimal'
+    ? matchBalancesMinimal(balances)
+    : matchBalances(balances)
+
+  return { settlements, roundingAdjustments, chargeShares, breakdowns }
+}
+
+/**
+ * Greedily pairs the largest debtor with the largest creditor until all balances are settled
+ */
+function matchBalances(balances: PersonBalance[]): Settlement[] {
   const debtors = balances
     .filter(b => b.balanceCents < 0)
     .map(b => ({ ...b, balanceCents: Math.abs(b.balanceCents) }))
@@ -33,6 +273,7 @@ function calculateSettlements(people: Person[]): Settlement[] {
 
   const creditors = balances
     .filter(b => b.balanceCents > 0)
+    .map(b => ({ ...b }))
     .sort((a, b) => b.balanceCents - a.balanceCents)
 
   const settlements: Settlement[] = []
@@ -48,8 +289,8 @@ function calculateSettlements(people: Person[]): Settlement[] {
 
     if (amount > 0) {
       settlements.push({
-        from: debtor.name,
-        to: creditor.name,
+        from: debtor.id,
+        to: creditor.id,
         amountCents: amount
       })
     }
@@ -64,21 +305,87 @@ function calculateSettlements(people: Person[]): Settlement[] {
   return settlements
 }
 
+/**
+ * Finds the fewest payments that settle all balances.
+ *
+ * A group of k people whose balances sum to zero can always be settled with k - 1
+ * payments, so the minimum is (people with a balance) - (most disjoint zero-sum
+ * groups they can be partitioned into). The groups are found with a dynamic program
+ * over subsets: best[mask] is the most zero-sum prefixes any ordering of mask can
+ * have. Each group is then settled with the greedy matcher.
+ */
+function matchBalancesMinimal(balances: PersonBalance[]): Settlement[] {
+  const nonZero = balances.filter(b => b.balanceCents !== 0)
+  const n = nonZero.length
+
+  if (n > MAX_MINIMAL_SOLVER_SIZE) {
+    return matchBalances(balances)
+  }
+
+  const size = 1 << n
+  const sums = new Float64Array(size)
+  const best = new Int8Array(size)
+
+  for (let mask = 1; mask < size; mask++) {
+    const lowest = 31 - Math.clz32(mask & -mask)
+    sums[mask] = sums[mask & (mask - 1)]! + nonZero[lowest]!.balanceCents
+
+    let most = 0
+    for (let i = 0; i < n; i++) {
+      if (mask & (1 << i)) most = Math.max(most, best[mask ^ (1 << i)]!)
+    }
+    best[mask] = most + (sums[mask] === 0 ? 1 : 0)
+  }
+
+  // Walk back from the full set, peeling off the last element of an optimal ordering
+  const order: number[] = []
+  let mask = size - 1
+  while (mask) {
+    const target = best[mask]! - (sums[mask] === 0 ? 1 : 0)
+    for (let i = 0; i < n; i++) {
+      if (mask & (1 << i) && best[mask ^ (1 << i)] === target) {
+        order.unshift(i)
+        mask ^= 1 << i
+        break
+      }
+    }
+  }
+
+  // Every point where the running total returns to zero closes a group
+  const settlements: Settlement[] = []
+  let group: PersonBalance[] = []
+  let runningCents = 0
+  for (const index of order) {
+    const balance = nonZero[index]!
+    group.push(balance)
+    runningCents += balance.balanceCents
+    if (runningCents === 0) {
+      settlements.push(...matchBalances(group))
+      group = []
+    }
+  }
+
+  return settlements
+}
+
 export function useSettlements(state: Ref<AppState>, debounceMs: number = 2000) {
   const settlements = ref<Settlement[]>([])
+  const roundingAdjustments = ref<RoundingAdjustment[]>([])
+  const chargeShares = ref<ChargeShare[]>([])
+  const breakdowns = ref<PersonBreakdown[]>([])
   const isCalculating = ref(false)
 
   let timeoutId: ReturnType<typeof setTimeout> | null = null
 
   const hasEnoughData = computed(() => {
     const namedPeople = state.value.people.filter(p => p.name.trim() !== '')
-    const totalCents = namedPeople.reduce((sum, p) => sum + calculateTotalCents(p), 0)
+    const totalCents = namedPeople.reduce((sum, p) => sum + calculateTotalCents(p, state.value), 0)
     // Need at least 2 named people and some expenses to split
     return namedPeople.length >= 2 && totalCents > 0
   })
 
   watch(
-    () => state.value.people,
+    state,
     () => {
       if (timeoutId) {
         clearTimeout(timeoutId)
@@ -87,7 +394,11 @@ export function useSettlements(state: Ref<AppState>, debounceMs: number = 2000)
       isCalculating.value = true
 
       timeoutId = setTimeout(() => {
-        settlements.value = calculateSettlements(state.value.people)
+        const result = calculateSettlements(state.value)
+        settlements.value = result.settlements
+        roundingAdjustments.value = result.roundingAdjustments
+        chargeShares.value = result.chargeShares
+        breakdowns.value = result.breakdowns
         isCalculating.value = false
       }, debounceMs)
     },
@@ -96,11 +407,18 @@ export function useSettlements(state: Ref<AppState>, debounceMs: number = 2000)
 
   return {
     settlements,
+    roundingAdjustments,
+    chargeShares,
+    breakdowns,
     isCalculating,
     hasEnoughData
   }
 }
 
-export function formatCents(cents: number): string {
-  return (cents / 100).toFixed(2)
+// Export internal functions for testing
+export const _testing = {
+  allocateCents,
+  calculateSettlements,
+  matchBalances,
+  matchBalancesMinimal,
 }
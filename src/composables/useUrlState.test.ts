@@ -1,8 +1,27 @@
-import { describe, it, expect } from 'vitest'
-import { _testing } from './useUrlState'
+// @vitest-environment jsdom
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest'
+import { effectScope, nextTick, type EffectScope } from 'vue'
+import { _testing, parseSharedLink, useUrlState } from './useUrlState'
+import { CURRENT_SCHEMA_VERSION } from '../lib/schema'
 import type { AppState } from '../types'
 
-const { toCompact, fromCompact, toBase64Url, fromBase64Url, encodeState, decodeState } = _testing
+const {
+  toCompact,
+  fromCompact,
+  toBase64Url,
+  fromBase64Url,
+  compressToBase64Url,
+  decompressFromBase64Url,
+  encodeState,
+  decodeState,
+  encryptState,
+  decryptState
+} = _testing
+
+// The compact JSON inside an encoded state
+function decodeCompactJson(encoded: string) {
+  return JSON.parse(decompressFromBase64Url(encoded.slice('2.'.length)))
+}
 
 describe('URL State Encoding', () => {
   describe('toCompact', () => {
@@ -37,12 +56,12 @@ describe('URL State Encoding', () => {
     it('includes currency when present', () => {
       const state: AppState = {
         people: [{ id: 'p1', name: 'Bob', items: [] }],
-        currency: '€'
+        currency: 'EUR'
       }
 
       const compact = toCompact(state)
 
-      expect(compact.c).toBe('€')
+      expect(compact.c).toBe('EUR')
     })
 
     it('omits currency when undefined', () => {
@@ -116,12 +135,12 @@ describe('URL State Encoding', () => {
     it('includes currency when present in compact', () => {
       const compact = {
         p: [{ i: 'p1', n: 'Bob', t: [] }],
-        c: '£'
+        c: 'GBP'
       }
 
       const state = fromCompact(compact)
 
-      expect(state.currency).toBe('£')
+      expect(state.currency).toBe('GBP')
     })
 
     it('omits currency when not in compact', () => {
@@ -133,6 +152,154 @@ describe('URL State Encoding', () => {
 
       expect(state.currency).toBeUndefined()
     })
+
+    it('includes item participants only when set', () => {
+      const state: AppState = {
+        people: [
+          {
+            id: 'p1',
+            name: 'Alice',
+            items: [
+              { id: 'i1', name: 'Boat tour', amountCents: 9000, participants: ['p1', 'p2'] },
+              { id: 'i2', name: 'Dinner', amountCents: 5000 }
+            ]
+          }
+        ]
+      }
+
+      const compact = toCompact(state)
+
+      expect(compact.p[0]!.t[0]!.p).toEqual(['p1', 'p2'])
+      expect(compact.p[0]!.t[1]!.p).toBeUndefined()
+      expect(fromCompact(compact)).toEqual(state)
+    })
+
+    it('includes share weight only when not 1', () => {
+      const state: AppState = {
+        people: [
+          { id: 'p1', name: 'Couple', items: [], weight: 2 },
+          { id: 'p2', name: 'Kid', items: [], weight: 0.5 },
+          { id: 'p3', name: 'Solo', items: [] }
+        ]
+      }
+
+      const compact = toCompact(state)
+
+      expect(compact.p.map(p => p.w)).toEqual([2, 0.5, undefined])
+      expect(fromCompact(compact)).toEqual(state)
+    })
+
+    it('roundtrips payments made', () => {
+      const state: AppState = {
+        people: [
+          { id: 'p1', name: 'Alice', items: [] },
+          { id: 'p2', name: 'Bob', items: [] }
+        ],
+        paymentsMade: [
+          { id: 'r1', from: 'p2', to: 'p1', amountCents: 1250, date: '2025-06-01' }
+        ]
+      }
+
+      const compact = toCompact(state)
+
+      expect(compact.r).toEqual([{ i: 'r1', f: 'p2', t: 'p1', a: 1250, d: '2025-06-01' }])
+      expect(fromCompact(compact)).toEqual(state)
+    })
+
+    it('roundtrips item currencies and exchange rates', () => {
+      const state: AppState = {
+        people: [
+          {
+            id: 'p1',
+            name: 'Alice',
+            items: [
+              { id: 'i1', name: 'Gelato', amountCents: 450, currency: 'EUR' },
+              { id: 'i2', name: 'Taxi', amountCents: 2000 }
+            ]
+          }
+        ],
+        exchangeRates: { EUR: 1.08 }
+      }
+
+      const compact = toCompact(state)
+
+      expect(compact.p[0]!.t[0]!.c).toBe('EUR')
+      expect(compact.p[0]!.t[1]!.c).toBeUndefined()
+      expect(compact.x).toEqual({ EUR: 1.08 })
+      expect(fromCompact(compact)).toEqual(state)
+    })
+
+    it('roundtrips tax, tip and fees', () => {
+      const state: AppState = {
+        people: [{ id: 'p1', name: 'Alice', items: [] }],
+        charges: { taxPercent: 8.875, tipPercent: 18, feeCents: 350 }
+      }
+
+      const compact = toCompact(state)
+
+      expect(compact.k).toEqual({ t: 8.875, p: 18, f: 350 })
+      expect(fromCompact(compact)).toEqual(state)
+    })
+
+    it('roundtrips receipts', () => {
+      const state: AppState = {
+        people: [
+          {
+            id: 'p1',
+            name: 'Alice',
+            items: [],
+            receipts: [
+              {
+                id: 'r1',
+                name: 'Dinner',
+                items: [{ id: 'i1', name: 'Pasta', amountCents: 1800, participants: ['p2'] }]
+              }
+            ]
+          },
+          { id: 'p2', name: 'Bob', items: [] }
+        ]
+      }
+
+      const compact = toCompact(state)
+
+      expect(compact.p[0]!.r).toEqual([
+        { i: 'r1', n: 'Dinner', t: [{ i: 'i1', n: 'Pasta', a: 1800, p: ['p2'] }] }
+      ])
+      expect(compact.p[1]!.r).toBeUndefined()
+      expect(fromCompact(compact)).toEqual(state)
+    })
+
+    it('roundtrips item dates and attendance', () => {
+      const state: AppState = {
+        people: [
+          {
+            id: 'p1',
+            name: 'Alice',
+            items: [{ id: 'i1', name: 'Cabin', amountCents: 9000, date: '2025-07-01' }],
+            attendance: { from: '2025-06-30', to: '2025-07-04' }
+          },
+          { id: 'p2', name: 'Bob', items: [], attendance: { to: '2025-07-02' } }
+        ]
+      }
+
+      const compact = toCompact(state)
+
+      expect(compact.p[0]!.t[0]!.d).toBe('2025-07-01')
+      expect(compact.p[0]!.a).toEqual({ f: '2025-06-30', t: '2025-07-04' })
+      expect(compact.p[1]!.a).toEqual({ t: '2025-07-02' })
+      expect(fromCompact(compact)).toEqual(state)
+    })
+
+    it('roundtrips the schema version', () => {
+      const state: AppState = { schemaVersion: 1, people: [] }
+
+      expect(toCompact(state).v).toBe(1)
+      expect(fromCompact(toCompact(state))).toEqual(state)
+    })
+
+    it('omits empty charges', () => {
+      expect(toCompact({ people: [], charges: {} }).k).toBeUndefined()
+    })
   })
 
   describe('roundtrip: toCompact -> fromCompact', () => {
@@ -155,7 +322,7 @@ describe('URL State Encoding', () => {
             ]
           }
         ],
-        currency: '€'
+        currency: 'EUR'
       }
 
       const roundtripped = fromCompact(toCompact(original))
@@ -202,7 +369,7 @@ describe('URL State Encoding', () => {
   })
 
   describe('encodeState', () => {
-    it('produces a URL-safe base64 string', () => {
+    it('produces a version-prefixed URL-safe base64 string', () => {
       const state: AppState = {
         people: [{ id: 'p1', name: 'Test', items: [] }]
       }
@@ -211,8 +378,26 @@ describe('URL State Encoding', () => {
 
       // Should not contain URL-unsafe characters
       expect(encoded).not.toMatch(/[+/=]/)
-      // Should only contain alphanumeric, - and _
-      expect(encoded).toMatch(/^[A-Za-z0-9_-]+$/)
+      // Version prefix, then only alphanumeric, - and _
+      expect(encoded).toMatch(/^2\.[A-Za-z0-9_-]+$/)
+    })
+
+    it('compresses repetitive states well below the uncompressed format', () => {
+      const state: AppState = {
+        people: Array.from({ length: 12 }, (_, i) => ({
+          id: `person${i}`,
+          name: `Person ${i}`,
+          items: [
+            { id: `dinner${i}`, name: 'Dinner', amountCents: 2500 + i },
+            { id: `taxi${i}`, name: 'Taxi', amountCents: 1200 + i }
+          ]
+        }))
+      }
+
+      const encoded = encodeState(state)
+      const uncompressed = toBase64Url(JSON.stringify(toCompact(state)))
+
+      expect(encoded.length).toBeLessThan(uncompressed.length / 2)
     })
 
     it('produces shorter output than old encoding method', () => {
@@ -235,14 +420,13 @@ describe('URL State Encoding', () => {
       expect(encoded.length).toBeLessThan(oldEncoded.length)
     })
 
-    it('excludes default currency ($) from encoded output', () => {
+    it('excludes default currency (USD) from encoded output', () => {
       const state: AppState = {
         people: [{ id: 'p1', name: 'Test', items: [] }],
-        currency: '$'
+        currency: 'USD'
       }
 
-      const encoded = encodeState(state)
-      const decoded = JSON.parse(fromBase64Url(encoded))
+      const decoded = decodeCompactJson(encodeState(state))
 
       expect(decoded.c).toBeUndefined()
     })
@@ -250,13 +434,12 @@ describe('URL State Encoding', () => {
     it('includes non-default currency in encoded output', () => {
       const state: AppState = {
         people: [{ id: 'p1', name: 'Test', items: [] }],
-        currency: '€'
+        currency: 'EUR'
       }
 
-      const encoded = encodeState(state)
-      const decoded = JSON.parse(fromBase64Url(encoded))
+      const decoded = decodeCompactJson(encodeState(state))
 
-      expect(decoded.c).toBe('€')
+      expect(decoded.c).toBe('EUR')
     })
   })
 
@@ -275,7 +458,24 @@ describe('URL State Encoding', () => {
       const encoded = encodeState(state)
       const decoded = decodeState(encoded)
 
-      expect(decoded).toEqual(state)
+      expect(decoded).toEqual({ ...state, schemaVersion: CURRENT_SCHEMA_VERSION })
+    })
+
+    it('decodes the uncompressed base64url format', () => {
+      const state: AppState = {
+        people: [
+          {
+            id: 'p1',
+            name: 'Zoë',
+            items: [{ id: 'i1', name: 'Crêpes', amountCents: 1500 }]
+          }
+        ],
+        currency: 'EUR'
+      }
+
+      const uncompressed = toBase64Url(JSON.stringify(toCompact(state)))
+
+      expect(decodeState(uncompressed)).toEqual({ ...state, schemaVersion: CURRENT_SCHEMA_VERSION })
     })
 
     it('handles backward compatibility with old format (encodeURIComponent + base64)', () => {
@@ -294,7 +494,8 @@ describe('URL State Encoding', () => {
       const oldEncoded = btoa(encodeURIComponent(JSON.stringify(oldFormatState)))
       const decoded = decodeState(oldEncoded)
 
-      expect(decoded).toEqual(oldFormatState)
+      // Old links stored the currency symbol
+      expect(decoded).toEqual({ ...oldFormatState, currency: 'EUR', schemaVersion: CURRENT_SCHEMA_VERSION })
     })
 
     it('handles backward compatibility with old compact format', () => {
@@ -321,7 +522,23 @@ describe('URL State Encoding', () => {
             items: [{ id: 'i1', name: 'Lunch', amountCents: 1500 }]
           }
         ],
-        currency: '€'
+        currency: 'EUR', // Old links stored the currency symbol
+        schemaVersion: CURRENT_SCHEMA_VERSION
+      })
+    })
+
+    it('stamps the current schema version when encoding', () => {
+      const decoded = decodeCompactJson(encodeState({ people: [] }))
+
+      expect(decoded.v).toBe(CURRENT_SCHEMA_VERSION)
+    })
+
+    it('migrates unversioned links that left out item lists', () => {
+      const legacy = btoa(encodeURIComponent(JSON.stringify({ people: [{ id: 'p1', name: 'Alice' }] })))
+
+      expect(decodeState(legacy)).toEqual({
+        people: [{ id: 'p1', name: 'Alice', items: [] }],
+        schemaVersion: CURRENT_SCHEMA_VERSION
       })
     })
 
@@ -344,6 +561,17 @@ describe('URL State Encoding', () => {
 
       expect(decoded).toBeNull()
     })
+
+    it('returns null for a corrupted compressed payload', () => {
+      const encoded = encodeState({ people: [{ id: 'p1', name: 'Alice', items: [] }] })
+
+      expect(decodeState(encoded.slice(0, -4))).toBeNull()
+      expect(decodeState('2.' + toBase64Url('not deflated'))).toBeNull()
+    })
+
+    it('returns null for compressed data that is not JSON', () => {
+      expect(decodeState('2.' + compressToBase64Url('not json at all'))).toBeNull()
+    })
   })
 
   describe('full roundtrip: encodeState -> decodeState', () => {
@@ -371,13 +599,13 @@ describe('URL State Encoding', () => {
             items: []
           }
         ],
-        currency: '£'
+        currency: 'GBP'
       }
 
       const encoded = encodeState(original)
       const decoded = decodeState(encoded)
 
-      expect(decoded).toEqual(original)
+      expect(decoded).toEqual({ ...original, schemaVersion: CURRENT_SCHEMA_VERSION })
     })
 
     it('handles empty items array', () => {
@@ -390,7 +618,7 @@ describe('URL State Encoding', () => {
 
       const decoded = decodeState(encodeState(original))
 
-      expect(decoded).toEqual(original)
+      expect(decoded).toEqual({ ...original, schemaVersion: CURRENT_SCHEMA_VERSION })
     })
 
     it('handles special characters in names', () => {
@@ -408,11 +636,11 @@ describe('URL State Encoding', () => {
 
       const decoded = decodeState(encodeState(original))
 
-      expect(decoded).toEqual(original)
+      expect(decoded).toEqual({ ...original, schemaVersion: CURRENT_SCHEMA_VERSION })
     })
 
-    it('handles unicode currency symbols', () => {
-      const currencies = ['€', '£', '¥', '₹', '₩', '₽']
+    it('handles currency codes', () => {
+      const currencies = ['EUR', 'GBP', 'JPY', 'INR', 'KRW', 'KWD']
 
       for (const currency of currencies) {
         const original: AppState = {
@@ -482,7 +710,7 @@ describe('URL State Encoding', () => {
             ]
           }
         ],
-        currency: '€'
+        currency: 'EUR'
       }
 
       // Old format: full keys + encodeURIComponent + base64
@@ -518,3 +746,411 @@ describe('URL State Encoding', () => {
     })
   })
 })
+
+describe('undo/redo history', () => {
+  beforeEach(() => {
+    window.history.replaceState({}, '', '/')
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('undoes and redoes a removed person', () => {
+    const { state, addPerson, updatePersonName, removePerson, undo, redo, canUndo, canRedo } = useUrlState()
+    addPerson()
+    const bob = state.value.people[1]!
+    updatePersonName(bob.id, 'Bob')
+    removePerson(bob.id)
+    expect(state.value.people).toHaveLength(1)
+
+    undo()
+    expect(state.value.people.map(p => p.name)).toEqual(['', 'Bob'])
+    expect(canRedo.value).toBe(true)
+
+    redo()
+    expect(state.value.people).toHaveLength(1)
+    expect(canUndo.value).toBe(true)
+    expect(canRedo.value).toBe(false)
+  })
+
+  it('coalesces quick edits to the same field into one step', () => {
+    const { state, eventName, updatePersonName, setEventName, undo } = useUrlState()
+    const personId = state.value.people[0]!.id
+    updatePersonName(personId, 'A')
+    updatePersonName(personId, 'Al')
+    updatePersonName(personId, 'Ali')
+    vi.advanceTimersByTime(5000)
+    setEventName('Trip')
+
+    undo()
+    expect(eventName.value).toBe('')
+    expect(state.value.people[0]!.name).toBe('Ali')
+
+    undo()
+    expect(state.value.people[0]!.name).toBe('')
+  })
+
+  it('makes reset undoable', () => {
+    const { eventName, setEventName, reset, undo } = useUrlState()
+    setEventName('Ski trip')
+    reset()
+    expect(eventName.value).toBe('')
+
+    undo()
+    expect(eventName.value).toBe('Ski trip')
+  })
+
+  it('keeps starting over from a saved list out of the history', () => {
+    const { setUlidMode, setEventName, reset, canUndo, isUlidMode } = useUrlState()
+    setUlidMode('01ARZ3NDEKTSV4RRFFQ69G5FAV', 1)
+    setEventName('Ski trip')
+    reset()
+    expect(isUlidMode.value).toBe(false)
+    expect(canUndo.value).toBe(false)
+  })
+
+  it('drops the redo stack after a new change', () => {
+    const { setCurrency, undo, canRedo } = useUrlState()
+    setCurrency('EUR')
+    undo()
+    expect(canRedo.value).toBe(true)
+
+    setCurrency('GBP')
+    expect(canRedo.value).toBe(false)
+  })
+
+  it('skips changes that left the state untouched', () => {
+    const { state, updateLineItem, addLineItem, undo, canUndo } = useUrlState()
+    const personId = state.value.people[0]!.id
+    addLineItem(personId)
+    const itemId = state.value.people[0]!.items[0]!.id
+    // An input re-emitting its current value on blur
+    updateLineItem(personId, itemId, { participants: undefined })
+
+    undo()
+    expect(state.value.people[0]!.items).toHaveLength(0)
+    expect(canUndo.value).toBe(false)
+  })
+
+  it('undoes a batch of changes in one step', () => {
+    const { state, addPerson, updatePersonName, batchChanges, undo, canUndo } = useUrlState()
+    batchChanges(() => {
+      const id = addPerson()
+      updatePersonName(id, 'Bob')
+      updatePersonName(id, 'Bobby')
+    })
+    expect(state.value.people).toHaveLength(2)
+
+    undo()
+    expect(state.value.people).toHaveLength(1)
+    expect(canUndo.value).toBe(false)
+  })
+
+  it('clears history when a whole state is loaded', () => {
+    const { setEventName, setState, canUndo } = useUrlState()
+    setEventName('Trip')
+    setState({ people: [] })
+
+    expect(canUndo.value).toBe(false)
+  })
+})
+
+describe('read-only links', () => {
+  const sharedState: AppState = {
+    people: [{ id: 'p1', name: 'Alice', items: [{ id: 'i1', name: 'Dinner', amountCents: 4000 }] }]
+  }
+
+  beforeEach(() => {
+    window.history.replaceState({}, '', '/')
+  })
+
+  it('builds a view-only link from the current URL state', async () => {
+    const { setEventName, readOnlyUrl, isReadOnly } = useUrlState()
+    expect(readOnlyUrl.value).toBeNull()
+
+    setEventName('Trip')
+    await nextTick()
+    const url = new URL(readOnlyUrl.value!)
+    expect(url.searchParams.get('ro')).toBe('1')
+    expect(decodeState(url.searchParams.get('data')!)?.eventName).toBe('Trip')
+    expect(isReadOnly.value).toBe(false)
+  })
+
+  it('opens ?data=...&ro=1 read-only and leaves the URL alone', () => {
+    const encoded = encodeState(sharedState)
+    window.history.replaceState({}, '', `/?data=${encoded}&ro=1`)
+    const before = window.location.search
+
+    const { state, isReadOnly } = useUrlState()
+    expect(isReadOnly.value).toBe(true)
+    expect(state.value.people[0]!.name).toBe('Alice')
+    expect(window.location.search).toBe(before)
+  })
+
+  it('treats ?v= as a read-only database list', () => {
+    window.history.replaceState({}, '', '/?v=01ARZ3NDEKTSV4RRFFQ69G5FAV')
+
+    const { isReadOnly, isUlidMode, viewId, readOnlyUrl } = useUrlState()
+    expect(isReadOnly.value).toBe(true)
+    expect(isUlidMode.value).toBe(false)
+    expect(viewId.value).toBe('01ARZ3NDEKTSV4RRFFQ69G5FAV')
+    expect(new URL(readOnlyUrl.value!).searchParams.get('v')).toBe('01ARZ3NDEKTSV4RRFFQ69G5FAV')
+  })
+
+  it('shares a database list through its view ID rather than its list ID', () => {
+    window.history.replaceState({}, '', '/?u=01ARZ3NDEKTSV4RRFFQ69G5FAV')
+
+    const { isReadOnly, readOnlyUrl, setListViewId } = useUrlState()
+    expect(isReadOnly.value).toBe(false)
+    expect(readOnlyUrl.value).toBeNull()
+
+    setListViewId('01BX5ZZKBKACTAV9WEVGEMMVRZ')
+    const url = new URL(readOnlyUrl.value!)
+    expect(url.searchParams.get('v')).toBe('01BX5ZZKBKACTAV9WEVGEMMVRZ')
+    expect(url.searchParams.has('u')).toBe(false)
+  })
+})
+
+describe('passphrase-encrypted links', () => {
+  const secretState: AppState = {
+    people: [{
+      id: 'p1',
+      name: 'Alice',
+      items: [{ id: 'i1', name: 'Hotel', amountCents: 24000 }],
+      payments: { zelle: '555-0100' }
+    }]
+  }
+
+  // Each test's instance is stopped when it ends, so an encrypted write it still has
+  // in flight can't land in the next test's URL
+  let scope: EffectScope
+
+  function useScopedUrlState() {
+    return scope.run(() => useUrlState())!
+  }
+
+  beforeEach(() => {
+    window.history.replaceState({}, '', '/')
+    scope = effectScope()
+  })
+
+  afterEach(() => {
+    scope.stop()
+  })
+
+  it('roundtrips state through encryption without exposing it', async () => {
+    const encoded = await encryptState(secretState, 'correct horse')
+    expect(encoded.startsWith('3.')).toBe(true)
+    expect(decodeState(encoded)).toBeNull()
+
+    const decoded = await decryptState(encoded, 'correct horse')
+    expect(decoded).toEqual({ ...secretState, schemaVersion: CURRENT_SCHEMA_VERSION })
+  })
+
+  it('rejects the wrong passphrase', async () => {
+    const encoded = await encryptState(secretState, 'correct horse')
+    await expect(decryptState(encoded, 'battery staple')).rejects.toThrow('Wrong passphrase')
+  })
+
+  it('keeps an encrypted link locked until unlocked', async () => {
+    const encoded = await encryptState(secretState, 'correct horse')
+    window.history.replaceState({}, '', `/?data=${encoded}`)
+
+    const { state, needsPassphrase, isEncrypted, unlock } = useScopedUrlState()
+    expect(needsPassphrase.value).toBe(true)
+    expect(state.value.people[0]!.name).toBe('')
+    await nextTick()
+    expect(new URLSearchParams(window.location.search).get('data')).toBe(encoded)
+
+    expect(await unlock('battery staple')).toBe(false)
+    expect(needsPassphrase.value).toBe(true)
+
+    expect(await unlock('correct horse')).toBe(true)
+    expect(needsPassphrase.value).toBe(false)
+    expect(isEncrypted.value).toBe(true)
+    expect(state.value.people[0]!.payments?.zelle).toBe('555-0100')
+  })
+
+  // Key derivation is deliberately slow, so allow the URL a while to update
+  it('writes an encrypted payload once a passphrase is set', async () => {
+    const { setEventName, setPassphrase } = useScopedUrlState()
+    setEventName('Secret trip')
+    setPassphrase('correct horse')
+
+    await vi.waitFor(() => {
+      expect(new URLSearchParams(window.location.search).get('data')?.startsWith('3.')).toBe(true)
+    }, { timeout: 5000 })
+    const data = new URLSearchParams(window.location.search).get('data')!
+    expect((await decryptState(data, 'correct horse'))?.eventName).toBe('Secret trip')
+
+    setPassphrase(null)
+    await vi.waitFor(() => {
+      expect(new URLSearchParams(window.location.search).get('data')?.startsWith('2.')).toBe(true)
+    }, { timeout: 5000 })
+  })
+})
+
+describe('fragment mode', () => {
+  const sharedState: AppState = {
+    people: [{ id: 'p1', name: 'Alice', items: [{ id: 'i1', name: 'Dinner', amountCents: 4000 }] }]
+  }
+
+  beforeEach(() => {
+    window.history.replaceState({}, '', '/')
+  })
+
+  afterEach(() => {
+    localStorage.clear()
+  })
+
+  it('loads state from #d= and keeps it in the fragment', async () => {
+    window.history.replaceState({}, '', `/#d=${encodeState(sharedState)}`)
+
+    const { state, isFragmentMode, setEventName } = useUrlState()
+    expect(state.value.people[0]!.name).toBe('Alice')
+    expect(isFragmentMode.value).toBe(true)
+
+    setEventName('Dinner')
+    await nextTick()
+    expect(window.location.search).toBe('')
+    const data = new URLSearchParams(window.location.hash.slice(1)).get('d')!
+    expect(decodeState(data)?.eventName).toBe('Dinner')
+  })
+
+  it('still reads ?data= links', () => {
+    window.history.replaceState({}, '', `/?data=${encodeState(sharedState)}`)
+
+    const { state, isFragmentMode } = useUrlState()
+    expect(state.value.people[0]!.name).toBe('Alice')
+    expect(isFragmentMode.value).toBe(false)
+  })
+
+  it('moves the payload between query and fragment and remembers the choice', async () => {
+    window.history.replaceState({}, '', `/?data=${encodeState(sharedState)}`)
+    const { setFragmentMode, getShareUrl } = useUrlState()
+
+    setFragmentMode(true)
+    await nextTick()
+    expect(window.location.search).toBe('')
+    expect(window.location.hash.startsWith('#d=2.')).toBe(true)
+    expect(new URL(getShareUrl()).hash).toBe(window.location.hash)
+    expect(localStorage.getItem('grouppayback_fragment_mode')).toBe('true')
+
+    setFragmentMode(false)
+    await nextTick()
+    expect(window.location.hash).toBe('')
+    expect(new URLSearchParams(window.location.search).get('data')?.startsWith('2.')).toBe(true)
+  })
+
+  it('starts in fragment mode when that was chosen before', () => {
+    localStorage.setItem('grouppayback_fragment_mode', 'true')
+
+    const { isFragmentMode } = useUrlState()
+    expect(isFragmentMode.value).toBe(true)
+  })
+})
+
+describe('leaving ULID mode', () => {
+  const listState: AppState = {
+    people: [{ id: 'p1', name: 'Alice', items: [{ id: 'i1', name: 'Dinner', amountCents: 4000 }] }]
+  }
+
+  beforeEach(() => {
+    window.history.replaceState({}, '', '/?u=01ARZ3NDEKTSV4RRFFQ69G5FAV')
+  })
+
+  it('moves a list that fits back into ?data=', async () => {
+    const { setState, setListVersion, canLeaveUlidMode, leaveUlidMode, isUlidMode, listVersion } = useUrlState()
+    setState(listState)
+    setListVersion(3)
+    expect(canLeaveUlidMode.value).toBe(true)
+
+    expect(leaveUlidMode()).toBe(true)
+    await nextTick()
+    expect(isUlidMode.value).toBe(false)
+    expect(listVersion.value).toBe(0)
+    const params = new URLSearchParams(window.location.search)
+    expect(params.has('u')).toBe(false)
+    expect(decodeState(params.get('data')!)?.people[0]!.name).toBe('Alice')
+  })
+
+  it('stays put when the list is too big for a link', () => {
+    const { setState, canLeaveUlidMode, leaveUlidMode, isUlidMode } = useUrlState()
+    setState({
+      people: [{
+        id: 'p1',
+        name: 'Alice',
+        // Random names don't compress, so these can't fit in 2000 characters
+        items: Array.from({ length: 300 }, (_, i) => ({ id: `i${i}`, name: Math.random().toString(36), amountCents: i }))
+      }]
+    })
+    expect(canLeaveUlidMode.value).toBe(false)
+
+    expect(leaveUlidMode()).toBe(false)
+    expect(isUlidMode.value).toBe(true)
+    expect(new URLSearchParams(window.location.search).get('u')).toBe('01ARZ3NDEKTSV4RRFFQ69G5FAV')
+  })
+})
+
+describe('changing the currency', () => {
+  beforeEach(() => {
+    window.history.replaceState({}, '', '/')
+  })
+
+  it('keeps typed amounts when the minor units differ', () => {
+    const { state, setState, setCurrency } = useUrlState()
+    setState({
+      people: [{
+        id: 'p1',
+        name: 'Alice',
+        items: [
+          { id: 'i1', name: 'Ramen', amountCents: 1250 },
+          { id: 'i2', name: 'Gelato', amountCents: 450, currency: 'EUR' }
+        ]
+      }, { id: 'p2', name: 'Bob', items: [] }],
+      charges: { feeCents: 300 },
+      paymentsMade: [{ id: 'pm1', from: 'p2', to: 'p1', amountCents: 500, date: '2026-01-01' }]
+    })
+
+    setCurrency('JPY')
+    expect(state.value.people[0]!.items.map(item => item.amountCents)).toEqual([13, 450])
+    expect(state.value.charges?.feeCents).toBe(3)
+    expect(state.value.paymentsMade?.[0]!.amountCents).toBe(5)
+
+    setCurrency('KWD')
+    expect(state.value.people[0]!.items[0]!.amountCents).toBe(13000)
+  })
+})
+
+describe('parseSharedLink', () => {
+  const sharedState: AppState = {
+    people: [{ id: 'p1', name: 'Alice', items: [{ id: 'i1', name: 'Dinner', amountCents: 4000 }] }]
+  }
+
+  it('reads the split out of ?data= and #d= links', () => {
+    const encoded = encodeState(sharedState)
+    for (const link of [`https://grouppayback.com/?data=${encoded}`, `https://grouppayback.com/#d=${encoded}`]) {
+      const result = parseSharedLink(link)
+      expect(result.kind).toBe('state')
+      expect(result.kind === 'state' && result.state.people[0]!.name).toBe('Alice')
+    }
+  })
+
+  it('recognizes database lists by link or bare id', () => {
+    const id = '01HQ3V5XKPZ8Y2W6N4M7R9T0AB'
+    expect(parseSharedLink(`https://grouppayback.com/?u=${id}`)).toEqual({ kind: 'list', listId: id })
+    expect(parseSharedLink(` ${id.toLowerCase()} `)).toEqual({ kind: 'list', listId: id })
+    expect(parseSharedLink(`https://grouppayback.com/?v=${id}`)).toEqual({ kind: 'view', viewId: id })
+  })
+
+  it('explains links it can\'t read', () => {
+    expect(parseSharedLink('https://grouppayback.com/').kind).toBe('invalid')
+    expect(parseSharedLink('https://grouppayback.com/?data=3.abc')).toEqual({
+      kind: 'invalid',
+      error: 'That link is locked with a passphrase. Open it, then export it to a file or remove the passphrase.'
+    })
+    expect(parseSharedLink('https://grouppayback.com/?data=2.%%%').kind).toBe('invalid')
+  })
+})
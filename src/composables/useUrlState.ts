@@ -1,11 +1,25 @@
-import { ref, watch, computed } from 'vue'
-import type { AppState, PaymentMethods } from '../types'
+import { ref, shallowRef, watch, computed } from 'vue'
+import { deflateRaw, inflateRaw } from '../lib/deflate'
+import { CURRENT_SCHEMA_VERSION, migrateAppState } from '../lib/schema'
+import {
+  ENCRYPTION_OVERHEAD_BYTES,
+  WrongPassphraseError,
+  decryptBytes,
+  derivePassphraseKey,
+  encryptBytes,
+  type PassphraseKey
+} from '../lib/crypto'
+import { DEFAULT_CURRENCY, getCurrency } from '../lib/currency'
+import type { AppState, Attendance, Charges, LineItem, LineItemUpdates, PaymentMethods, RecordedPayment, SettlementStrategy } from '../types'
 
 // Compact types for URL encoding (reduces URL length by ~40%)
 interface CompactLineItem {
   i: string      // id
   n: string      // name
   a: number      // amountCents
+  p?: string[]   // participants - only if not shared by everyone
+  c?: string     // currency - only if not the event currency
+  d?: string     // date - only if dated
 }
 
 interface CompactPaymentMethods {
@@ -16,34 +30,52 @@ interface CompactPaymentMethods {
   o?: string  // other
 }
 
+interface CompactAttendance {
+  f?: string     // from
+  t?: string     // to
+}
+
+interface CompactReceipt {
+  i: string            // id
+  n: string            // name
+  t: CompactLineItem[] // items
+}
+
 interface CompactPerson {
   i: string            // id
   n: string            // name
   t: CompactLineItem[] // items (using 't' since 'i' is for id)
   m?: CompactPaymentMethods  // payment methods - only if person has any
+  w?: number           // share weight - only if not 1
+  r?: CompactReceipt[] // receipts - only if person has any
+  a?: CompactAttendance // attendance - only if not there the whole time
+}
+
+interface CompactRecordedPayment {
+  i: string      // id
+  f: string      // from (person id)
+  t: string      // to (person id)
+  a: number      // amountCents
+  d: string      // date
+}
+
+interface CompactCharges {
+  t?: number     // taxPercent
+  p?: number     // tipPercent
+  f?: number     // feeCents
 }
 
 interface CompactState {
   p: CompactPerson[]   // people
   c?: string           // currency
   e?: string           // eventName
+  s?: SettlementStrategy // settlementStrategy - only if not greedy
+  r?: CompactRecordedPayment[] // paymentsMade - only if any
+  x?: Record<string, number>   // exchangeRates - only if any
+  k?: CompactCharges           // charges - only if any
+  v?: number                   // schemaVersion - absent in links made before versioning
 }
 
-export const CURRENCIES = [
-  { symbol: '$', name: 'Dollar' },
-  { symbol: '€', name: 'Euro' },
-  { symbol: '£', name: 'Pound' },
-  { symbol: '¥', name: 'Yen/Yuan' },
-  { symbol: '₹', name: 'Rupee' },
-  { symbol: '₩', name: 'Won' },
-  { symbol: 'R$', name: 'Real' },
-  { symbol: 'CHF', name: 'Franc' },
-  { symbol: 'kr', name: 'Krona' },
-  { symbol: '₽', name: 'Ruble' },
-]
-
-const DEFAULT_CURRENCY = '$'
-
 function generateId(): string {
   return Math.random().toString(36).substring(2, 9)
 }
@@ -70,44 +102,133 @@ function fromCompactPayments(compact?: CompactPaymentMethods): PaymentMethods |
   return Object.keys(payments).length > 0 ? payments : undefined
 }
 
+function toCompactCharges(charges?: Charges): CompactCharges | undefined {
+  if (!charges) return undefined
+  const compact: CompactCharges = {}
+  if (charges.taxPercent) compact.t = charges.taxPercent
+  if (charges.tipPercent) compact.p = charges.tipPercent
+  if (charges.feeCents) compact.f = charges.feeCents
+  return Object.keys(compact).length > 0 ? compact : undefined
+}
+
+function fromCompactCharges(compact?: CompactCharges): Charges | undefined {
+  if (!compact) return undefined
+  const charges: Charges = {}
+  if (compact.t) charges.taxPercent = compact.t
+  if (compact.p) charges.tipPercent = compact.p
+  if (compact.f) charges.feeCents = compact.f
+  return Object.keys(charges).length > 0 ? charges : undefined
+}
+
+function toCompactItem(item: LineItem): CompactLineItem {
+  const compactItem: CompactLineItem = {
+    i: item.id,
+    n: item.name,
+    a: item.amountCents
+  }
+  if (item.participants && item.participants.length > 0) compactItem.p = item.participants
+  if (item.currency) compactItem.c = item.currency
+  if (item.date) compactItem.d = item.date
+  return compactItem
+}
+
+function fromCompactItem(item: CompactLineItem): LineItem {
+  return {
+    id: item.i,
+    name: item.n,
+    amountCents: item.a,
+    ...(item.p && item.p.length > 0 && { participants: item.p }),
+    ...(item.c && { currency: item.c }),
+    ...(item.d && { date: item.d })
+  }
+}
+
 function toCompact(state: AppState): CompactState {
+  const compactCharges = toCompactCharges(state.charges)
   return {
     p: state.people.map(person => {
       const compactPerson: CompactPerson = {
         i: person.id,
         n: person.name,
-        t: person.items.map(item => ({
-          i: item.id,
-          n: item.name,
-          a: item.amountCents
-        }))
+        t: person.items.map(toCompactItem)
       }
       const compactPayments = toCompactPayments(person.payments)
       if (compactPayments) compactPerson.m = compactPayments
+      if (person.weight !== undefined && person.weight !== 1) compactPerson.w = person.weight
+      if (person.attendance?.from || person.attendance?.to) {
+        compactPerson.a = {
+          ...(person.attendance.from && { f: person.attendance.from }),
+          ...(person.attendance.to && { t: person.attendance.to })
+        }
+      }
+      if (person.receipts && person.receipts.length > 0) {
+        compactPerson.r = person.receipts.map(receipt => ({
+          i: receipt.id,
+          n: receipt.name,
+          t: receipt.items.map(toCompactItem)
+        }))
+      }
       return compactPerson
     }),
     ...(state.currency && { c: state.currency }),
-    ...(state.eventName && { e: state.eventName })
+    ...(state.eventName && { e: state.eventName }),
+    ...(state.settlementStrategy && state.settlementStrategy !== 'greedy' && { s: state.settlementStrategy }),
+    ...(state.paymentsMade && state.paymentsMade.length > 0 && {
+      r: state.paymentsMade.map(payment => ({
+        i: payment.id,
+        f: payment.from,
+        t: payment.to,
+        a: payment.amountCents,
+        d: payment.date
+      }))
+    }),
+    ...(state.exchangeRates && Object.keys(state.exchangeRates).length > 0 && { x: state.exchangeRates }),
+    ...(compactCharges && { k: compactCharges }),
+    ...(state.schemaVersion !== undefined && { v: state.schemaVersion })
   }
 }
 
 function fromCompact(compact: CompactState): AppState {
+  const charges = fromCompactCharges(compact.k)
   return {
     people: compact.p.map(person => {
       const payments = fromCompactPayments(person.m)
       return {
         id: person.i,
         name: person.n,
-        items: person.t.map(item => ({
-          id: item.i,
-          name: item.n,
-          amountCents: item.a
-        })),
-        ...(payments && { payments })
+        items: person.t.map(fromCompactItem),
+        ...(payments && { payments }),
+        ...(person.w !== undefined && person.w !== 1 && { weight: person.w }),
+        ...(person.r && person.r.length > 0 && {
+          receipts: person.r.map(receipt => ({
+            id: receipt.i,
+            name: receipt.n,
+            items: receipt.t.map(fromCompactItem)
+          }))
+        }),
+        ...((person.a?.f || person.a?.t) && {
+          attendance: {
+            ...(person.a.f && { from: person.a.f }),
+            ...(person.a.t && { to: person.a.t })
+          }
+        })
       }
     }),
     ...(compact.c && { currency: compact.c }),
-    ...(compact.e && { eventName: compact.e })
+    ...(compact.e && { eventName: compact.e }),
+    ...(compact.s && compact.s !== 'greedy' && { settlementStrategy: compact.s }),
+    ...(compact.r && compact.r.length > 0 && {
+      paymentsMade: compact.r.map(payment => ({
+        id: payment.i,
+        from: payment.f,
+        to: payment.t,
+        amountCents: payment.a,
+        date: payment.d
+      }))
+    }),
+    ...(compact.x && Object.keys(compact.x).length > 0 && { exchangeRates: compact.x }),
+    ...(charges && { charges }),
+    ...(compact.v !== undefined && { schemaVersion: compact.v })
   }
 }
 
@@ -139,57 +260,185 @@ function fromBase64Url(str: string): string {
   )
 }
 
-function encodeState(state: AppState): string {
+function bytesToBase64Url(bytes: Uint8Array): string {
+  let binary = ''
+  for (const byte of bytes) binary += String.fromCharCode(byte)
+  return btoa(binary)
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '')
+}
+
+function base64UrlToBytes(str: string): Uint8Array {
+  let base64 = str.replace(/-/g, '+').replace(/_/g, '/')
+  const padding = base64.length % 4
+  if (padding) {
+    base64 += '='.repeat(4 - padding)
+  }
+  return Uint8Array.from(atob(base64), c => c.charCodeAt(0))
+}
+
+// Deflate-compressed UTF-8 JSON → base64url
+function compressToBase64Url(str: string): string {
+  return bytesToBase64Url(deflateRaw(new TextEncoder().encode(str)))
+}
+
+function decompressFromBase64Url(str: string): string {
+  return new TextDecoder('utf-8', { fatal: true }).decode(inflateRaw(base64UrlToBytes(str)))
+}
+
+// Payload formats, oldest first:
+//   legacy: base64 of encodeURIComponent(JSON), unprefixed
+//   1: base64url of the JSON, unprefixed
+//   2: "2." + base64url of the deflated JSON
+//   3: "3." + base64url of the deflated JSON encrypted with a passphrase
+// "." never appears in base64, so a prefixed payload can't be mistaken for an older one
+const COMPRESSED_PREFIX = '2.'
+const ENCRYPTED_PREFIX = '3.'
+
+function toCompactJson(state: AppState): string {
   // Only include currency in URL if it's not the default
-  const stateToEncode = { ...state }
+  const stateToEncode = { ...state, schemaVersion: CURRENT_SCHEMA_VERSION }
   if (!stateToEncode.currency || stateToEncode.currency === DEFAULT_CURRENCY) {
     delete stateToEncode.currency
   }
   // Convert to compact format for shorter URLs
-  const compact = toCompact(stateToEncode)
-  const json = JSON.stringify(compact)
-  // Use URL-safe base64 encoding directly on JSON (no encodeURIComponent needed)
-  return toBase64Url(json)
+  return JSON.stringify(toCompact(stateToEncode))
 }
 
-function decodeState(encoded: string): AppState | null {
+function encodeState(state: AppState): string {
+  // The compact JSON repeats the same keys for every person and item, so it deflates well
+  return COMPRESSED_PREFIX + compressToBase64Url(toCompactJson(state))
+}
+
+/**
+ * Encodes the state encrypted with a passphrase, so the link alone reveals nothing.
+ * Compression happens first since ciphertext doesn't compress.
+ */
+async function encryptState(state: AppState, passphrase: string | PassphraseKey): Promise<string> {
+  const compressed = deflateRaw(new TextEncoder().encode(toCompactJson(state)))
+  return ENCRYPTED_PREFIX + bytesToBase64Url(await encryptBytes(compressed, passphrase))
+}
+
+function isEncryptedPayload(encoded: string): boolean {
+  return encoded.startsWith(ENCRYPTED_PREFIX)
+}
+
+/**
+ * Decodes an encrypted payload, or returns null if it decrypts to something unusable
+ *
+ * @throws WrongPassphraseError if the passphrase doesn't match
+ */
+async function decryptState(encoded: string, passphrase: string): Promise<AppState | null> {
+  let payload: Uint8Array
   try {
-    let json: string
+    payload = base64UrlToBytes(encoded.slice(ENCRYPTED_PREFIX.length))
+  } catch {
+    return null
+  }
+  const compressed = await decryptBytes(payload, passphrase)
+  try {
+    return parseStateJson(new TextDecoder('utf-8', { fatal: true }).decode(inflateRaw(compressed)))
+  } catch {
+    return null
+  }
+}
 
-    // Try new URL-safe base64 format first (raw JSON → base64url)
-    try {
-      json = fromBase64Url(encoded)
-      JSON.parse(json) // Validate it's valid JSON
-    } catch {
-      // Fall back to old format (encodeURIComponent → base64)
-      json = decodeURIComponent(atob(encoded))
-    }
+/**
+ * Reads either wire format (full or compact keys) and brings it up to the current schema
+ */
+function parseStateJson(json: string): AppState | null {
+  const parsed = JSON.parse(json)
 
-    const parsed = JSON.parse(json)
+  // The keys tell the wire format; the schema version tells how old the data is
+  // Check for old format (has 'people' key)
+  if (parsed && Array.isArray(parsed.people)) {
+    return migrateAppState(parsed)
+  }
 
-    // Check for old format (has 'people' key)
-    if (parsed && Array.isArray(parsed.people)) {
-      return parsed as AppState
-    }
+  // Check for compact format (has 'p' key)
+  if (parsed && Array.isArray(parsed.p)) {
+    return migrateAppState(fromCompact(parsed as CompactState))
+  }
 
-    // Check for compact format (has 'p' key)
-    if (parsed && Array.isArray(parsed.p)) {
-      return fromCompact(parsed as CompactState)
+  return null
+}
+
+function decodeState(encoded: string): AppState | null {
+  try {
+    let json: string
+
+    if (isEncryptedPayload(encoded)) {
+      // Needs the passphrase; see decryptState
+      return null
+    } else if (encoded.startsWith(COMPRESSED_PREFIX)) {
+      json = decompressFromBase64Url(encoded.slice(COMPRESSED_PREFIX.length))
+    } else {
+      // Try URL-safe base64 format first (raw JSON → base64url)
+      try {
+        json = fromBase64Url(encoded)
+        JSON.parse(json) // Validate it's valid JSON
+      } catch {
+        // Fall back to old format (encodeURIComponent → base64)
+        json = decodeURIComponent(atob(encoded))
+      }
     }
 
-    return null
+    return parseStateJson(json)
   } catch {
     return null
   }
 }
 
-function getStateFromUrl(): AppState | null {
+// Fragment mode keeps the payload in the hash (#d=...), which browsers never send to the server
+const FRAGMENT_MODE_KEY = 'grouppayback_fragment_mode'
+
+function getHashParams(): URLSearchParams {
+  return new URLSearchParams(window.location.hash.slice(1))
+}
+
+/**
+ * Gets the raw payload from URL, in either the fragment (#d=...) or the query string (?data=...)
+ */
+function getDataFromUrl(): string | null {
   const params = new URLSearchParams(window.location.search)
-  const data = params.get('data')
-  if (data) {
-    return decodeState(data)
+  return getHashParams().get('d') ?? params.get('data')
+}
+
+function isDataInFragment(): boolean {
+  return getHashParams().has('d')
+}
+
+function loadFragmentPreference(): boolean {
+  try {
+    return localStorage.getItem(FRAGMENT_MODE_KEY) === 'true'
+  } catch {
+    return false
+  }
+}
+
+function saveFragmentPreference(inFragment: boolean): void {
+  try {
+    localStorage.setItem(FRAGMENT_MODE_KEY, String(inFragment))
+  } catch {
+    // Ignore storage errors (private browsing, etc.)
   }
-  return null
+}
+
+/**
+ * Link to a URL-mode split, with the payload in the fragment or the query string
+ */
+function buildPayloadUrl(encoded: string, inFragment: boolean, readOnly = false): string {
+  const url = new URL(window.location.pathname, window.location.origin)
+  if (inFragment) {
+    url.hash = `d=${encoded}`
+  } else {
+    url.searchParams.set('data', encoded)
+  }
+  if (readOnly) {
+    url.searchParams.set('ro', '1')
+  }
+  return url.toString().replace(/\/\?/, '?')
 }
 
 /**
@@ -200,33 +449,111 @@ function getUlidFromUrl(): string | null {
   return params.get('u')
 }
 
+/**
+ * Gets the view ID from URL if opened through a database list's read-only link (?v=VIEWID)
+ */
+function getViewIdFromUrl(): string | null {
+  const params = new URLSearchParams(window.location.search)
+  return params.get('v')
+}
+
+/**
+ * Whether a URL-mode link was shared as view-only (?data=...&ro=1)
+ */
+function isReadOnlyUrl(): boolean {
+  const params = new URLSearchParams(window.location.search)
+  return params.get('ro') === '1'
+}
+
+/**
+ * What a pasted link points at: a split carried in the link itself, or one in the database
+ */
+export type SharedLink =
+  | { kind: 'state'; state: AppState }
+  | { kind: 'list'; listId: string }
+  | { kind: 'view'; viewId: string }
+  | { kind: 'invalid'; error: string }
+
+const LIST_ID_PATTERN = /^[0-9A-Z]{26}$/i
+
+/**
+ * Reads a share link (or a bare list id) pasted by the user, e.g. to merge another split
+ */
+export function parseSharedLink(text: string): SharedLink {
+  const trimmed = text.trim()
+  if (LIST_ID_PATTERN.test(trimmed)) {
+    return { kind: 'list', listId: trimmed.toUpperCase() }
+  }
+
+  let url: URL
+  try {
+    url = new URL(trimmed, window.location.origin)
+  } catch {
+    return { kind: 'invalid', error: 'That isn\'t a link' }
+  }
+
+  const listId = url.searchParams.get('u')
+  if (listId && LIST_ID_PATTERN.test(listId)) return { kind: 'list', listId }
+  const viewId = url.searchParams.get('v')
+  if (viewId && LIST_ID_PATTERN.test(viewId)) return { kind: 'view', viewId }
+
+  const encoded = new URLSearchParams(url.hash.slice(1)).get('d') ?? url.searchParams.get('data')
+  if (!encoded) {
+    return { kind: 'invalid', error: 'That link doesn\'t have a split in it' }
+  }
+  if (isEncryptedPayload(encoded)) {
+    return { kind: 'invalid', error: 'That link is locked with a passphrase. Open it, then export it to a file or remove the passphrase.' }
+  }
+  const state = decodeState(encoded)
+  return state ? { kind: 'state', state } : { kind: 'invalid', error: 'That link is damaged or incomplete' }
+}
+
 function hasUserData(state: AppState): boolean {
   if (state.eventName && state.eventName.trim() !== '') return true
   return state.people.some(person =>
     person.name.trim() !== '' ||
-    person.items.some(item => item.name.trim() !== '' || item.amountCents > 0)
+    person.items.some(item => item.name.trim() !== '' || item.amountCents > 0) ||
+    (person.receipts?.length ?? 0) > 0
   )
 }
 
-function updateUrl(state: AppState, isUrlTooLong: boolean): void {
+/**
+ * Writes an encoded payload to the URL, or removes it when null. The payload goes in
+ * the fragment or the query string, and is cleared from the other.
+ */
+function updateUrl(encoded: string | null, inFragment: boolean): void {
   const url = new URL(window.location.href)
+  const hashParams = new URLSearchParams(url.hash.slice(1))
+  url.searchParams.delete('data')
+  hashParams.delete('d')
 
-  if (hasUserData(state) && !isUrlTooLong) {
-    const encoded = encodeState(state)
+  if (encoded && inFragment) {
+    hashParams.set('d', encoded)
+  } else if (encoded) {
     url.searchParams.set('data', encoded)
-  } else {
-    url.searchParams.delete('data')
   }
+  url.hash = hashParams.toString()
 
   // Remove trailing slash before query params (e.g., /? -> ?)
   let urlString = url.toString().replace(/\/\?/, '?')
   // Remove trailing ? if no params
-  urlString = urlString.replace(/\?$/, '')
+  urlString = urlString.replace(/\?(?=#|$)/, '')
   window.history.replaceState({}, '', urlString)
 }
 
+/**
+ * Today's date in the user's timezone as YYYY-MM-DD
+ */
+export function todayIsoDate(): string {
+  const now = new Date()
+  const month = String(now.getMonth() + 1).padStart(2, '0')
+  const day = String(now.getDate()).padStart(2, '0')
+  return `${now.getFullYear()}-${month}-${day}`
+}
+
 function createDefaultState(): AppState {
   return {
+    schemaVersion: CURRENT_SCHEMA_VERSION,
     people: [
       { id: generateId(), name: '', items: [] }
     ]
@@ -236,16 +563,37 @@ function createDefaultState(): AppState {
 // Conservative URL length limit (supports IE/Edge legacy and avoids truncation in messaging apps)
 export const URL_LENGTH_LIMIT = 2000
 
+// Undo steps kept, and how close together edits to one field must be to share a step
+const MAX_HISTORY = 100
+const HISTORY_COALESCE_MS = 1000
+
 export function useUrlState() {
-  // Check for ULID mode first (URL: ?u=ULID)
+  // Check for ULID mode first (URL: ?u=ULID), then read-only database links (URL: ?v=VIEWID)
   const urlUlid = getUlidFromUrl()
-  const initialState = urlUlid ? createDefaultState() : (getStateFromUrl() ?? createDefaultState())
+  const urlViewId = urlUlid ? null : getViewIdFromUrl()
+  const urlData = urlUlid || urlViewId ? null : getDataFromUrl()
+  const initialState = urlData ? (decodeState(urlData) ?? createDefaultState()) : createDefaultState()
 
   const state = ref<AppState>(initialState)
 
   // ULID mode state
   const listId = ref<string | null>(urlUlid)
   const listVersion = ref<number>(0)
+  const listViewId = ref<string | null>(null)
+
+  // Read-only mode: opened through a view-only link, so editing controls are hidden
+  const viewId = ref<string | null>(urlViewId)
+  const isReadOnly = computed(() => viewId.value !== null || (!urlUlid && isReadOnlyUrl()))
+
+  // Passphrase mode: the URL payload is encrypted. An encrypted link shows an empty
+  // split, and leaves the URL alone, until it's unlocked with the passphrase.
+  const lockedPayload = urlData && isEncryptedPayload(urlData) ? urlData : null
+  const needsPassphrase = ref(lockedPayload !== null)
+  const passphrase = ref<string | null>(null)
+  const isEncrypted = computed(() => passphrase.value !== null)
+
+  // Fragment mode: on by preference, or for this visit when the link came with #d=
+  const isFragmentMode = ref(isDataInFragment() || loadFragmentPreference())
 
   const currency = computed(() => state.value.currency || DEFAULT_CURRENCY)
   const eventName = computed(() => state.value.eventName || '')
@@ -253,62 +601,238 @@ export function useUrlState() {
   // True when state is backed by database instead of URL
   const isUlidMode = computed(() => listId.value !== null)
 
+  // Undo/redo history: snapshots of the state taken before each change
+  const undoStack = shallowRef<string[]>([])
+  const redoStack = shallowRef<string[]>([])
+  const canUndo = computed(() => undoStack.value.length > 0)
+  const canRedo = computed(() => redoStack.value.length > 0)
+  let lastChangeKey: string | null = null
+  let lastChangeAt = 0
+  let isBatching = false
+
+  /**
+   * Snapshots the state before a change. Changes sharing a key (like keystrokes in
+   * one field) made in quick succession are coalesced into a single undo step.
+   */
+  function recordChange(coalesceKey?: string): void {
+    if (isBatching) return
+    const now = Date.now()
+    const isContinuation = coalesceKey !== undefined &&
+      coalesceKey === lastChangeKey &&
+      now - lastChangeAt < HISTORY_COALESCE_MS
+    lastChangeKey = coalesceKey ?? null
+    lastChangeAt = now
+    if (isContinuation) return
+    undoStack.value = [...undoStack.value, JSON.stringify(state.value)].slice(-MAX_HISTORY)
+    redoStack.value = []
+  }
+
+  /**
+   * Pops the most recent snapshot that differs from the current state. Some inputs
+   * re-emit unchanged values (e.g. on blur), which leaves identical snapshots behind.
+   */
+  function popDifferent(stack: string[], current: string): { snapshot: string | null; rest: string[] } {
+    const rest = [...stack]
+    while (rest.length > 0) {
+      const snapshot = rest.pop()!
+      if (snapshot !== current) return { snapshot, rest }
+    }
+    return { snapshot: null, rest }
+  }
+
+  function undo(): void {
+    const current = JSON.stringify(state.value)
+    const { snapshot, rest } = popDifferent(undoStack.value, current)
+    undoStack.value = rest
+    lastChangeKey = null
+    if (snapshot === null) return
+    redoStack.value = [...redoStack.value, current]
+    state.value = JSON.parse(snapshot) as AppState
+  }
+
+  function redo(): void {
+    const current = JSON.stringify(state.value)
+    const { snapshot, rest } = popDifferent(redoStack.value, current)
+    redoStack.value = rest
+    lastChangeKey = null
+    if (snapshot === null) return
+    undoStack.value = [...undoStack.value, current]
+    state.value = JSON.parse(snapshot) as AppState
+  }
+
+  /**
+   * Runs several mutators as one undo step (e.g. everything an import adds)
+   */
+  function batchChanges(run: () => void): void {
+    recordChange()
+    lastChangeKey = null
+    isBatching = true
+    try {
+      run()
+    } finally {
+      isBatching = false
+    }
+  }
+
+  function clearHistory(): void {
+    undoStack.value = []
+    redoStack.value = []
+    lastChangeKey = null
+  }
+
+  // Whether the state fits in a link of its own, with the current link settings
+  function fitsInUrl(newState: AppState): boolean {
+    const encoded = encodeState(newState)
+    // Encryption adds a fixed number of bytes, at 4 base64 characters per 3 bytes
+    const encryptionLength = isEncrypted.value ? Math.ceil(ENCRYPTION_OVERHEAD_BYTES * 4 / 3) : 0
+    // Account for base URL + "?data=" or "#d=" prefix
+    const prefixLength = isFragmentMode.value ? 3 : 6
+    const estimatedUrlLength = window.location.origin.length + window.location.pathname.length + prefixLength + encoded.length + encryptionLength
+    return estimatedUrlLength <= URL_LENGTH_LIMIT
+  }
+
   // Track if URL is too long (only relevant in URL mode)
   const isUrlTooLong = computed(() => {
     if (isUlidMode.value) return false
     if (!hasUserData(state.value)) return false
-    const encoded = encodeState(state.value)
-    // Account for base URL + "?data=" prefix
-    const estimatedUrlLength = window.location.origin.length + window.location.pathname.length + 6 + encoded.length
-    return estimatedUrlLength > URL_LENGTH_LIMIT
+    return !fitsInUrl(state.value)
   })
 
-  // Only update URL in URL mode (not ULID mode)
-  watch([state, isUrlTooLong, isUlidMode], ([newState, tooLong, ulidMode]) => {
-    if (!ulidMode) {
-      updateUrl(newState, tooLong)
+  // A saved list that has shrunk enough to go back to living in its link
+  const canLeaveUlidMode = computed(() => isUlidMode.value && !isReadOnly.value && fitsInUrl(state.value))
+
+  // The payload in the URL, or null when there's nothing there to share
+  const urlPayload = ref<string | null>(urlData)
+
+  // The key for the current passphrase, derived once rather than on every edit
+  let derivedKey: { passphrase: string; key: Promise<PassphraseKey> } | null = null
+
+  function getPassphraseKey(secret: string): Promise<PassphraseKey> {
+    if (derivedKey?.passphrase !== secret) {
+      derivedKey = { passphrase: secret, key: derivePassphraseKey(secret) }
+    }
+    return derivedKey.key
+  }
+
+  // Only update URL in URL mode (not ULID mode), and leave view-only and locked links as they were shared
+  watch([state, isUrlTooLong, isUlidMode, passphrase, isFragmentMode], async ([newState, tooLong, ulidMode, key, inFragment], _, onCleanup) => {
+    if (ulidMode || isReadOnly.value || needsPassphrase.value) return
+    // Encrypting is async, so a slow write must not land after a newer one (or after
+    // the watcher has stopped)
+    let isStale = false
+    onCleanup(() => {
+      isStale = true
+    })
+
+    let encoded: string | null = null
+    if (hasUserData(newState) && !tooLong) {
+      encoded = key === null ? encodeState(newState) : await encryptState(newState, await getPassphraseKey(key))
     }
+    if (isStale) return
+
+    urlPayload.value = encoded
+    updateUrl(encoded, inFragment)
   }, { deep: true, immediate: true })
 
-  function addPerson(): void {
+  /**
+   * Link for sharing the split as it is now. In URL mode it's rebuilt from the payload,
+   * so it follows fragment mode; otherwise it's the current address.
+   */
+  function getShareUrl(): string {
+    if (isUlidMode.value || viewId.value || isReadOnly.value || needsPassphrase.value || !urlPayload.value) {
+      return window.location.href
+    }
+    return buildPayloadUrl(urlPayload.value, isFragmentMode.value)
+  }
+
+  // Link that opens the current split without editing controls, or null when there is
+  // none yet (a database list whose view ID hasn't loaded, or a URL too long to share)
+  const readOnlyUrl = computed((): string | null => {
+    const url = new URL(window.location.pathname, window.location.origin)
+    if (isUlidMode.value) {
+      if (!listViewId.value) return null
+      url.searchParams.set('v', listViewId.value)
+    } else if (viewId.value) {
+      url.searchParams.set('v', viewId.value)
+    } else {
+      if (!urlPayload.value) return null
+      return buildPayloadUrl(urlPayload.value, isFragmentMode.value, true)
+    }
+    return url.toString().replace(/\/\?/, '?')
+  })
+
+  function addPerson(): string {
+    recordChange()
+    const id = generateId()
     state.value.people.push({
-      id: generateId(),
+      id,
       name: '',
       items: []
     })
+    return id
   }
 
   function removePerson(personId: string): void {
+    recordChange()
     const index = state.value.people.findIndex(p => p.id === personId)
     if (index !== -1) {
       state.value.people.splice(index, 1)
     }
+    // Drop payments made by or to the removed person
+    if (state.value.paymentsMade) {
+      const remainingPayments = state.value.paymentsMade.filter(
+        payment => payment.from !== personId && payment.to !== personId
+      )
+      state.value.paymentsMade = remainingPayments.length > 0 ? remainingPayments : undefined
+    }
+    // Drop the removed person from any items they were sharing
+    for (const person of state.value.people) {
+      for (const item of [...person.items, ...(person.receipts ?? []).flatMap(r => r.items)]) {
+        if (!item.participants) continue
+        const remaining = item.participants.filter(id => id !== personId)
+        item.participants = remaining.length > 0 ? remaining : undefined
+      }
+    }
   }
 
   function updatePersonName(personId: string, name: string): void {
+    recordChange(`name:${personId}`)
     const person = state.value.people.find(p => p.id === personId)
     if (person) {
       person.name = name
     }
   }
 
-  function addLineItem(personId: string): void {
+  /**
+   * Items live either directly on the person or on one of their receipts
+   */
+  function findItems(personId: string, receiptId?: string): LineItem[] | undefined {
     const person = state.value.people.find(p => p.id === personId)
-    if (person) {
-      person.items.push({
-        id: generateId(),
-        name: '',
-        amountCents: 0
-      })
-    }
+    if (!person) return undefined
+    if (receiptId === undefined) return person.items
+    return person.receipts?.find(r => r.id === receiptId)?.items
   }
 
-  function removeLineItem(personId: string, itemId: string): void {
-    const person = state.value.people.find(p => p.id === personId)
-    if (person) {
-      const index = person.items.findIndex(i => i.id === itemId)
+  function addLineItem(personId: string, receiptId?: string): string | null {
+    recordChange()
+    const items = findItems(personId, receiptId)
+    if (!items) return null
+    const id = generateId()
+    items.push({
+      id,
+      name: '',
+      amountCents: 0
+    })
+    return id
+  }
+
+  function removeLineItem(personId: string, itemId: string, receiptId?: string): void {
+    recordChange()
+    const items = findItems(personId, receiptId)
+    if (items) {
+      const index = items.findIndex(i => i.id === itemId)
       if (index !== -1) {
-        person.items.splice(index, 1)
+        items.splice(index, 1)
       }
     }
   }
@@ -316,27 +840,125 @@ export function useUrlState() {
   function updateLineItem(
     personId: string,
     itemId: string,
-    updates: { name?: string; amountCents?: number }
+    updates: LineItemUpdates,
+    receiptId?: string
   ): void {
-    const person = state.value.people.find(p => p.id === personId)
-    if (person) {
-      const item = person.items.find(i => i.id === itemId)
+    // Typing in the name or amount coalesces; picking a currency, date or participants doesn't
+    const isTyping = Object.keys(updates).every(key => key === 'name' || key === 'amountCents')
+    recordChange(isTyping ? `item:${itemId}` : undefined)
+    const items = findItems(personId, receiptId)
+    if (items) {
+      const item = items.find(i => i.id === itemId)
       if (item) {
         if (updates.name !== undefined) item.name = updates.name
         if (updates.amountCents !== undefined) item.amountCents = updates.amountCents
+        if ('currency' in updates) item.currency = updates.currency || undefined
+        if ('date' in updates) item.date = updates.date || undefined
+        if ('participants' in updates) {
+          item.participants = updates.participants && updates.participants.length > 0
+            ? updates.participants
+            : undefined
+        }
       }
     }
   }
 
-  function setCurrency(symbol: string): void {
-    state.value.currency = symbol === DEFAULT_CURRENCY ? undefined : symbol
+  function addReceipt(personId: string): void {
+    recordChange()
+    const person = state.value.people.find(p => p.id === personId)
+    if (person) {
+      const receipts = person.receipts ?? (person.receipts = [])
+      receipts.push({
+        id: generateId(),
+        name: '',
+        items: [{ id: generateId(), name: '', amountCents: 0 }]
+      })
+    }
+  }
+
+  function removeReceipt(personId: string, receiptId: string): void {
+    recordChange()
+    const person = state.value.people.find(p => p.id === personId)
+    if (person?.receipts) {
+      const remaining = person.receipts.filter(r => r.id !== receiptId)
+      person.receipts = remaining.length > 0 ? remaining : undefined
+    }
+  }
+
+  function updateReceiptName(personId: string, receiptId: string, name: string): void {
+    recordChange(`receipt:${receiptId}`)
+    const person = state.value.people.find(p => p.id === personId)
+    const receipt = person?.receipts?.find(r => r.id === receiptId)
+    if (receipt) {
+      receipt.name = name
+    }
+  }
+
+  /**
+   * Changes the event currency. Amounts already entered in it keep the number shown
+   * (12.50 stays 12.50), so they're rescaled when the two currencies have different
+   * minor units.
+   */
+  function setCurrency(code: string): void {
+    recordChange()
+    const scale = 10 ** (getCurrency(code).minorUnits - getCurrency(currency.value).minorUnits)
+    if (scale !== 1) {
+      const rescale = (amount: number) => Math.round(amount * scale)
+      for (const person of state.value.people) {
+        for (const item of [...person.items, ...(person.receipts ?? []).flatMap(r => r.items)]) {
+          if (!item.currency) item.amountCents = rescale(item.amountCents)
+        }
+      }
+      if (state.value.charges?.feeCents) {
+        state.value.charges.feeCents = rescale(state.value.charges.feeCents)
+      }
+      for (const payment of state.value.paymentsMade ?? []) {
+        payment.amountCents = rescale(payment.amountCents)
+      }
+    }
+    state.value.currency = code === DEFAULT_CURRENCY ? undefined : code
+  }
+
+  /**
+   * Set how much one unit of another currency is worth in the event currency.
+   * Passing null clears the rate.
+   */
+  function setExchangeRate(currencyCode: string, rate: number | null): void {
+    recordChange(`rate:${currencyCode}`)
+    const rates = { ...state.value.exchangeRates }
+    if (rate !== null && Number.isFinite(rate) && rate > 0) {
+      rates[currencyCode] = rate
+    } else {
+      delete rates[currencyCode]
+    }
+    state.value.exchangeRates = Object.keys(rates).length > 0 ? rates : undefined
+  }
+
+  /**
+   * Set the event's tax and tip percentages and fixed fees. Zero or invalid values are cleared.
+   */
+  function setCharges(charges: Charges): void {
+    recordChange('charges')
+    const isPositive = (value?: number) => value !== undefined && Number.isFinite(value) && value > 0
+    const next: Charges = {}
+    if (isPositive(charges.taxPercent)) next.taxPercent = charges.taxPercent
+    if (isPositive(charges.tipPercent)) next.tipPercent = charges.tipPercent
+    if (isPositive(charges.feeCents)) next.feeCents = Math.round(charges.feeCents!)
+    state.value.charges = Object.keys(next).length > 0 ? next : undefined
+  }
+
+  function setSettlementStrategy(strategy: SettlementStrategy): void {
+    recordChange()
+    state.value.settlementStrategy = strategy === 'greedy' ? undefined : strategy
   }
 
   function setEventName(name: string): void {
+    recordChange('eventName')
     state.value.eventName = name.trim() === '' ? undefined : name
   }
 
   function updatePersonPayments(personId: string, payments: PaymentMethods): void {
+    recordChange()
     const person = state.value.people.find(p => p.id === personId)
     if (person) {
       const hasAnyPayment = Object.values(payments).some(v => v && v.trim() !== '')
@@ -344,10 +966,67 @@ export function useUrlState() {
     }
   }
 
+  function updatePersonWeight(personId: string, weight: number): void {
+    recordChange(`weight:${personId}`)
+    const person = state.value.people.find(p => p.id === personId)
+    if (person) {
+      const isValid = Number.isFinite(weight) && weight >= 0
+      person.weight = isValid && weight !== 1 ? weight : undefined
+    }
+  }
+
+  // Days a person was there; both ends are optional
+  function updatePersonAttendance(personId: string, attendance: Attendance): void {
+    recordChange()
+    const person = state.value.people.find(p => p.id === personId)
+    if (person) {
+      person.attendance = attendance.from || attendance.to
+        ? {
+            ...(attendance.from && { from: attendance.from }),
+            ...(attendance.to && { to: attendance.to })
+          }
+        : undefined
+    }
+  }
+
+  /**
+   * Record that one person has paid another back
+   */
+  function recordPayment(from: string, to: string, amountCents: number, date: string = todayIsoDate()): void {
+    recordChange()
+    const payment: RecordedPayment = { id: generateId(), from, to, amountCents, date }
+    state.value.paymentsMade = [...(state.value.paymentsMade ?? []), payment]
+  }
+
+  function removeRecordedPayment(paymentId: string): void {
+    recordChange()
+    const remaining = (state.value.paymentsMade ?? []).filter(p => p.id !== paymentId)
+    state.value.paymentsMade = remaining.length > 0 ? remaining : undefined
+  }
+
+  /**
+   * Replace the split with an imported one, keeping the current list or URL mode.
+   * Unlike setState this is an undoable change.
+   */
+  function importState(newState: AppState): void {
+    recordChange()
+    state.value = newState
+  }
+
   function reset(): void {
+    // Undo can't reconnect to a saved list, so starting over from one starts the
+    // history over too
+    if (isUlidMode.value) {
+      clearHistory()
+    } else {
+      recordChange()
+    }
     state.value = createDefaultState()
     listId.value = null
     listVersion.value = 0
+    listViewId.value = null
+    // Starting over abandons a link that was never unlocked
+    needsPassphrase.value = false
     // Clear URL to base path
     window.history.replaceState({}, '', window.location.pathname)
   }
@@ -357,6 +1036,8 @@ export function useUrlState() {
    */
   function setState(newState: AppState): void {
     state.value = newState
+    // A freshly loaded list has nothing to undo
+    clearHistory()
   }
 
   /**
@@ -368,11 +1049,74 @@ export function useUrlState() {
     // Update URL to ULID format
     const url = new URL(window.location.href)
     url.searchParams.delete('data')
+    url.hash = ''
     url.searchParams.set('u', id)
     let urlString = url.toString().replace(/\/\?/, '?')
     window.history.replaceState({}, '', urlString)
   }
 
+  /**
+   * Switches a saved list back to URL mode, with the data in the link again. The list
+   * stays in the database; deleting it is up to the caller.
+   *
+   * @returns false, changing nothing, if the state is too big for a link
+   */
+  function leaveUlidMode(): boolean {
+    if (!canLeaveUlidMode.value) return false
+    listId.value = null
+    listVersion.value = 0
+    listViewId.value = null
+    // The URL watcher writes the payload once it sees URL mode
+    const url = new URL(window.location.href)
+    url.searchParams.delete('u')
+    const urlString = url.toString().replace(/\/\?/, '?').replace(/\?(?=#|$)/, '')
+    window.history.replaceState({}, '', urlString)
+    return true
+  }
+
+  /**
+   * Decrypts the link's payload. Resolves false if the passphrase is wrong.
+   */
+  async function unlock(candidate: string): Promise<boolean> {
+    if (!lockedPayload || !needsPassphrase.value) return true
+
+    let decoded: AppState | null
+    try {
+      decoded = await decryptState(lockedPayload, candidate)
+    } catch (err) {
+      if (err instanceof WrongPassphraseError) return false
+      throw err
+    }
+
+    passphrase.value = candidate
+    needsPassphrase.value = false
+    setState(decoded ?? createDefaultState())
+    return true
+  }
+
+  /**
+   * Choose whether the payload goes in the fragment (#d=) or the query string (?data=),
+   * and remember the choice for next time
+   */
+  function setFragmentMode(inFragment: boolean): void {
+    isFragmentMode.value = inFragment
+    saveFragmentPreference(inFragment)
+  }
+
+  /**
+   * Turn passphrase mode on, change the passphrase, or turn it off with null
+   */
+  function setPassphrase(newPassphrase: string | null): void {
+    passphrase.value = newPassphrase || null
+  }
+
+  /**
+   * Remember the read-only link ID of the loaded database list
+   */
+  function setListViewId(id: string): void {
+    listViewId.value = id
+  }
+
   /**
    * Update the version after a successful save
    */
@@ -386,20 +1130,49 @@ export function useUrlState() {
     eventName,
     isUrlTooLong,
     isUlidMode,
+    canLeaveUlidMode,
     listId,
     listVersion,
+    viewId,
+    isReadOnly,
+    readOnlyUrl,
+    needsPassphrase,
+    isEncrypted,
+    unlock,
+    setPassphrase,
+    isFragmentMode,
+    setFragmentMode,
+    getShareUrl,
     addPerson,
     removePerson,
     updatePersonName,
     addLineItem,
     removeLineItem,
     updateLineItem,
+    addReceipt,
+    removeReceipt,
+    updateReceiptName,
     setCurrency,
+    setExchangeRate,
+    setCharges,
+    setSettlementStrategy,
     setEventName,
     updatePersonPayments,
+    updatePersonWeight,
+    updatePersonAttendance,
+    recordPayment,
+    removeRecordedPayment,
+    importState,
     reset,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+    batchChanges,
     setState,
     setUlidMode,
+    leaveUlidMode,
+    setListViewId,
     setListVersion
   }
 }
@@ -410,6 +1183,10 @@ export const _testing = {
   fromCompact,
   toBase64Url,
   fromBase64Url,
+  compressToBase64Url,
+  decompressFromBase64Url,
   encodeState,
   decodeState,
+  encryptState,
+  decryptState,
 }
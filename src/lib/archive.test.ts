@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest'
+import { parseImport, serializeExport } from './archive'
+import { CURRENT_SCHEMA_VERSION } from './schema'
+import type { AppState } from '../types'
+
+const state: AppState = {
+  people: [{ id: 'p1', name: 'Alice', items: [{ id: 'i1', name: 'Hotel', amountCents: 24000 }] }],
+  eventName: 'Ski Trip 2026!',
+  charges: { tipPercent: 18 }
+}
+
+describe('serializeExport / parseImport', () => {
+  it('roundtrips a split with its schema version', () => {
+    const text = serializeExport(state, new Date('2026-03-01T12:00:00Z'))
+    const file = JSON.parse(text)
+    expect(file.format).toBe('grouppayback')
+    expect(file.schemaVersion).toBe(CURRENT_SCHEMA_VERSION)
+    expect(file.exportedAt).toBe('2026-03-01T12:00:00.000Z')
+
+    expect(parseImport(text)).toEqual({ ok: true, state: { ...state, schemaVersion: CURRENT_SCHEMA_VERSION } })
+  })
+
+  it('accepts a bare state and upgrades old data', () => {
+    const result = parseImport(JSON.stringify({ people: [{ id: 'p1', name: 'Alice' }] }))
+    expect(result).toEqual({
+      ok: true,
+      state: { schemaVersion: CURRENT_SCHEMA_VERSION, people: [{ id: 'p1', name: 'Alice', items: [] }] }
+    })
+  })
+
+  it('reports why a file was rejected', () => {
+    expect(parseImport('not json')).toEqual({ ok: false, errors: ["The file isn't valid JSON"] })
+    expect(parseImport('[]')).toEqual({ ok: false, errors: ['The data must be an object'] })
+    expect(parseImport(JSON.stringify({ format: 'grouppayback', data: { people: [{ id: 1, name: 'Alice', items: [] }] } })))
+      .toEqual({ ok: false, errors: ['people[0].id must be text'] })
+  })
+
+  it('refuses files from a newer version', () => {
+    const result = parseImport(JSON.stringify({ ...state, schemaVersion: CURRENT_SCHEMA_VERSION + 1 }))
+    expect(result.ok).toBe(false)
+  })
+})
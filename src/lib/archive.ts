@@ -0,0 +1,66 @@
+import type { AppState } from '../types'
+import { CURRENT_SCHEMA_VERSION, getSchemaVersion, migrateAppState } from './schema'
+import { validateAppState } from './validate'
+
+/**
+ * Whole-split export files, for archiving a finished trip and restoring it later
+ * without a link or a saved list.
+ */
+
+const FORMAT = 'grouppayback'
+
+interface ExportFile {
+  format: typeof FORMAT
+  schemaVersion: number
+  exportedAt: string
+  data: AppState
+}
+
+export type ImportResult =
+  | { ok: true; state: AppState }
+  | { ok: false; errors: string[] }
+
+/**
+ * Serializes the state as the contents of an export file
+ */
+export function serializeExport(state: AppState, exportedAt: Date = new Date()): string {
+  const file: ExportFile = {
+    format: FORMAT,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    exportedAt: exportedAt.toISOString(),
+    data: { ...state, schemaVersion: CURRENT_SCHEMA_VERSION },
+  }
+  return JSON.stringify(file, null, 2)
+}
+
+/**
+ * Reads an export file (or a bare AppState), validates it and brings it up to the
+ * current schema
+ */
+export function parseImport(text: string): ImportResult {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(text)
+  } catch {
+    return { ok: false, errors: ["The file isn't valid JSON"] }
+  }
+
+  const file = parsed as Partial<ExportFile> | null
+  const data: unknown = file && typeof file === 'object' && file.format === FORMAT ? file.data : parsed
+
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return { ok: false, errors: validateAppState(data) }
+  }
+  if (getSchemaVersion(data) > CURRENT_SCHEMA_VERSION) {
+    return { ok: false, errors: ['The file was made by a newer version of GroupPayback. Reload the page to update, then try again.'] }
+  }
+
+  // Older files are upgraded first, so they're held to the rules of the current schema
+  const state = migrateAppState(data)
+  const errors = validateAppState(state)
+  if (errors.length > 0) {
+    return { ok: false, errors }
+  }
+
+  return { ok: true, state }
+}
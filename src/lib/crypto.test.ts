@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest'
+import { ENCRYPTION_OVERHEAD_BYTES, WrongPassphraseError, decryptBytes, derivePassphraseKey, encryptBytes } from './crypto'
+
+const data = new TextEncoder().encode('{"p":[{"i":"p1","n":"Alice"}]}')
+
+describe('encryptBytes / decryptBytes', () => {
+  it('roundtrips with the right passphrase', async () => {
+    const sealed = await encryptBytes(data, 'hunter2')
+    expect(sealed.length).toBe(data.length + ENCRYPTION_OVERHEAD_BYTES)
+    expect(await decryptBytes(sealed, 'hunter2')).toEqual(data)
+  })
+
+  it('salts every encryption', async () => {
+    const first = await encryptBytes(data, 'hunter2')
+    const second = await encryptBytes(data, 'hunter2')
+    expect(first).not.toEqual(second)
+  })
+
+  it('reuses a derived key with a fresh IV each time', async () => {
+    const key = await derivePassphraseKey('hunter2')
+    const first = await encryptBytes(data, key)
+    const second = await encryptBytes(data, key)
+    expect(first.subarray(0, 16)).toEqual(second.subarray(0, 16))
+    expect(first).not.toEqual(second)
+    expect(await decryptBytes(second, 'hunter2')).toEqual(data)
+  })
+
+  it('throws WrongPassphraseError for the wrong passphrase', async () => {
+    const sealed = await encryptBytes(data, 'hunter2')
+    await expect(decryptBytes(sealed, 'hunter3')).rejects.toBeInstanceOf(WrongPassphraseError)
+  })
+
+  it('throws WrongPassphraseError for tampered or truncated data', async () => {
+    const sealed = await encryptBytes(data, 'hunter2')
+    sealed[sealed.length - 1] = sealed[sealed.length - 1]! ^ 1
+    await expect(decryptBytes(sealed, 'hunter2')).rejects.toBeInstanceOf(WrongPassphraseError)
+    await expect(decryptBytes(sealed.slice(0, 10), 'hunter2')).rejects.toBeInstanceOf(WrongPassphraseError)
+  })
+})
@@ -0,0 +1,100 @@
+/**
+ * Passphrase encryption for URL payloads, using WebCrypto.
+ *
+ * A key is derived from the passphrase with PBKDF2 and a random salt, then the data is
+ * sealed with AES-GCM. The salt and IV travel with the ciphertext, so the passphrase is
+ * all a recipient needs. GCM's authentication tag means a wrong passphrase (or a
+ * tampered link) fails to decrypt instead of producing garbage.
+ */
+
+const SALT_BYTES = 16
+const IV_BYTES = 12
+const TAG_BYTES = 16
+const PBKDF2_ITERATIONS = 200_000
+
+// Bytes an encrypted payload adds to its plaintext: salt, IV and authentication tag
+export const ENCRYPTION_OVERHEAD_BYTES = SALT_BYTES + IV_BYTES + TAG_BYTES
+
+/**
+ * Error thrown when a payload can't be decrypted with the given passphrase
+ */
+export class WrongPassphraseError extends Error {
+  constructor() {
+    super('Wrong passphrase')
+    this.name = 'WrongPassphraseError'
+  }
+}
+
+/**
+ * A key derived from a passphrase, with the salt it was derived with. Deriving is the
+ * slow part, so a link that is re-encrypted on every edit reuses one of these; each
+ * encryption still gets a fresh IV.
+ */
+export interface PassphraseKey {
+  salt: Uint8Array<ArrayBuffer>
+  key: CryptoKey
+}
+
+async function deriveKey(passphrase: string, salt: Uint8Array<ArrayBuffer>): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  )
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  )
+}
+
+/**
+ * Derives a key from a passphrase with a new random salt
+ */
+export async function derivePassphraseKey(passphrase: string): Promise<PassphraseKey> {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES))
+  return { salt, key: await deriveKey(passphrase, salt) }
+}
+
+/**
+ * Encrypts data with a passphrase, or with a key already derived from one
+ *
+ * @returns salt + IV + ciphertext (with its authentication tag)
+ */
+export async function encryptBytes(data: Uint8Array, passphrase: string | PassphraseKey): Promise<Uint8Array> {
+  const { salt, key } = typeof passphrase === 'string' ? await derivePassphraseKey(passphrase) : passphrase
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES))
+  const ciphertext = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new Uint8Array(data)))
+
+  const out = new Uint8Array(SALT_BYTES + IV_BYTES + ciphertext.length)
+  out.set(salt, 0)
+  out.set(iv, SALT_BYTES)
+  out.set(ciphertext, SALT_BYTES + IV_BYTES)
+  return out
+}
+
+/**
+ * Decrypts data produced by encryptBytes
+ *
+ * @throws WrongPassphraseError if the passphrase is wrong or the data was altered
+ */
+export async function decryptBytes(payload: Uint8Array, passphrase: string): Promise<Uint8Array> {
+  if (payload.length < ENCRYPTION_OVERHEAD_BYTES) {
+    throw new WrongPassphraseError()
+  }
+  // Copies, so WebCrypto gets buffers of their own
+  const salt = new Uint8Array(payload.subarray(0, SALT_BYTES))
+  const iv = new Uint8Array(payload.subarray(SALT_BYTES, SALT_BYTES + IV_BYTES))
+  const ciphertext = new Uint8Array(payload.subarray(SALT_BYTES + IV_BYTES))
+  const key = await deriveKey(passphrase, salt)
+
+  try {
+    return new Uint8Array(await crypto.subtle.decrypt({ name: 'AES-GCM', iv }, key, ciphertext))
+  } catch {
+    throw new WrongPassphraseError()
+  }
+}
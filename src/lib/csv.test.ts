@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest'
+import { expensesCsv, parseCsv, settlementsCsv, toCsv } from './csv'
+import type { Person } from '../types'
+
+function lines(csv: string): string[] {
+  expect(csv.startsWith('﻿')).toBe(true)
+  expect(csv.endsWith('\r\n')).toBe(true)
+  return csv.slice(1, -2).split('\r\n')
+}
+
+const people: Person[] = [
+  {
+    id: 'p1',
+    name: 'Smith, Anna',
+    items: [{ id: 'i1', name: 'Café "Le Zinc"', amountCents: 4250, currency: 'EUR', date: '2026-03-01' }],
+    receipts: [{ id: 'r1', name: 'Groceries', items: [{ id: 'i2', name: 'Bread', amountCents: 300, participants: ['p2'] }] }],
+    payments: { venmo: '@anna', other: 'IBAN DE12, ref trip' }
+  },
+  {
+    id: 'p2',
+    name: 'Zoë',
+    items: [
+      { id: 'i3', name: '=SUM(A1)', amountCents: 1000 },
+      { id: 'i4', name: 'Ramen', amountCents: 980, currency: 'JPY' }
+    ]
+  }
+]
+
+describe('toCsv', () => {
+  it('quotes only the fields that need it', () => {
+    expect(lines(toCsv([['plain', 'a,b', 'say "hi"', 'two\nlines', 12.5]]))).toEqual([
+      'plain,"a,b","say ""hi""","two\nlines",12.5'
+    ])
+  })
+})
+
+describe('parseCsv', () => {
+  it('reads back what toCsv writes', () => {
+    const rows = [['plain', 'a,b', 'say "hi"', 'two\nlines'], ['Zoë', '', '12.50', 'x']]
+    expect(parseCsv(toCsv(rows))).toEqual(rows)
+  })
+
+  it('accepts LF line endings and skips blank lines', () => {
+    expect(parseCsv('a,b\n\n1,2\n')).toEqual([['a', 'b'], ['1', '2']])
+  })
+})
+
+describe('expensesCsv', () => {
+  it('lists every item, with receipts and non-ASCII names intact', () => {
+    expect(lines(expensesCsv({ people }, 'USD'))).toEqual([
+      'Person,Receipt,Item,Amount,Currency,Date,Split with',
+      '"Smith, Anna",,"Café ""Le Zinc""",42.50,EUR,2026-03-01,Everyone',
+      '"Smith, Anna",Groceries,Bread,3.00,USD,,Zoë',
+      "Zoë,,'=SUM(A1),10.00,USD,,Everyone",
+      'Zoë,,Ramen,980,JPY,,Everyone'
+    ])
+  })
+})
+
+describe('settlementsCsv', () => {
+  it('includes the payment handles of whoever is being paid', () => {
+    expect(lines(settlementsCsv([{ from: 'p2', to: 'p1', amountCents: 1575 }], people, 'USD'))).toEqual([
+      'From,To,Amount,Currency,Venmo,Zelle,PayPal,Cash App,Other',
+      'Zoë,"Smith, Anna",15.75,USD,@anna,,,,"IBAN DE12, ref trip"'
+    ])
+  })
+})
@@ -0,0 +1,144 @@
+import type { AppState, Person, Settlement } from '../types'
+import { PAYMENT_PROVIDERS } from '../composables/usePaymentMethods'
+import { formatAmount } from './currency'
+
+/**
+ * CSV export for reconciling a split in a spreadsheet, and parsing for importing one
+ */
+
+type Cell = string | number
+
+// Excel only reads a CSV as UTF-8 (rather than the system code page) when it starts with a BOM
+const BOM = '﻿'
+
+/**
+ * Quotes a field when RFC 4180 requires it: when it contains a comma, quote or line break
+ */
+function quoteField(value: Cell): string {
+  const text = String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * Text typed by users. Spreadsheets run cells starting with these characters as
+ * formulas, so a leading apostrophe keeps them as plain text.
+ */
+function textCell(value: string): string {
+  return /^[=+\-@\t\r]/.test(value) ? `'${value}` : value
+}
+
+function personName(person: Person | undefined): string {
+  return textCell(person?.name.trim() || 'Unnamed')
+}
+
+/**
+ * Builds a CSV document: a BOM, then CRLF-terminated rows
+ */
+export function toCsv(rows: Cell[][]): string {
+  return BOM + rows.map(row => row.map(quoteField).join(',') + '\r\n').join('')
+}
+
+/**
+ * Parses a CSV document (RFC 4180, plus the LF line endings and BOM spreadsheets
+ * often write). Blank lines are dropped.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let inQuotes = false
+  const input = text.startsWith(BOM) ? text.slice(1) : text
+
+  function endRow(): void {
+    row.push(field)
+    if (row.length > 1 || row[0] !== '') rows.push(row)
+    row = []
+    field = ''
+  }
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]!
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++
+      endRow()
+    } else {
+      field += char
+    }
+  }
+  if (field !== '' || row.length > 0) endRow()
+
+  return rows
+}
+
+/**
+ * One row per expense, including the items on itemized receipts
+ *
+ * @param currency - The event currency, for items without one of their own
+ */
+export function expensesCsv(state: AppState, currency: string): string {
+  const rows: Cell[][] = [['Person', 'Receipt', 'Item', 'Amount', 'Currency', 'Date', 'Split with']]
+  const byId = new Map(state.people.map(person => [person.id, person]))
+
+  for (const person of state.people) {
+    const groups = [
+      { receipt: '', items: person.items },
+      ...(person.receipts ?? []).map(receipt => ({ receipt: textCell(receipt.name), items: receipt.items }))
+    ]
+    for (const { receipt, items } of groups) {
+      for (const item of items) {
+        const participants = (item.participants ?? []).filter(id => byId.has(id))
+        rows.push([
+          personName(person),
+          receipt,
+          textCell(item.name),
+          formatAmount(item.amountCents, item.currency ?? currency),
+          item.currency ?? currency,
+          item.date ?? '',
+          participants.length > 0 ? participants.map(id => personName(byId.get(id))).join('; ') : 'Everyone'
+        ])
+      }
+    }
+  }
+
+  return toCsv(rows)
+}
+
+/**
+ * One row per payment still to make, with the ways the recipient can be paid
+ */
+export function settlementsCsv(settlements: Settlement[], people: Person[], currency: string): string {
+  const rows: Cell[][] = [['From', 'To', 'Amount', 'Currency', ...PAYMENT_PROVIDERS.map(provider => provider.name)]]
+  const byId = new Map(people.map(person => [person.id, person]))
+
+  for (const settlement of settlements) {
+    const recipient = byId.get(settlement.to)
+    rows.push([
+      personName(byId.get(settlement.from)),
+      personName(recipient),
+      formatAmount(settlement.amountCents, currency),
+      currency,
+      // Handles like "@name" are checked against each provider's format when entered;
+      // only free-form "Other" info could be mistaken for a formula
+      ...PAYMENT_PROVIDERS.map(provider => {
+        const handle = recipient?.payments?.[provider.key] ?? ''
+        return provider.key === 'other' ? textCell(handle) : handle
+      })
+    ])
+  }
+
+  return toCsv(rows)
+}
@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest'
+import {
+  guessMapping,
+  isSplitwiseExport,
+  parseAmount,
+  previewSplitwise,
+  previewWithMapping,
+  toCurrencyCode
+} from './csvImport'
+
+describe('parseAmount', () => {
+  it('reads amounts with either decimal separator', () => {
+    expect(parseAmount('12.50', 'USD')).toBe(1250)
+    expect(parseAmount('12,5', 'USD')).toBe(1250)
+    expect(parseAmount('1,234.56', 'USD')).toBe(123456)
+    expect(parseAmount('1.234,56', 'USD')).toBe(123456)
+    expect(parseAmount('1,234', 'USD')).toBe(123400)
+    expect(parseAmount('$ 8', 'USD')).toBe(800)
+    expect(parseAmount('-3.10', 'USD')).toBe(-310)
+  })
+
+  it('uses the currency\'s minor units', () => {
+    expect(parseAmount('1,234', 'JPY')).toBe(1234)
+    expect(parseAmount('¥980', 'JPY')).toBe(980)
+    expect(parseAmount('12.500', 'KWD')).toBe(12500)
+    expect(parseAmount('1,234', 'KWD')).toBe(1234)
+  })
+
+  it('returns null when there is no number', () => {
+    expect(parseAmount('', 'USD')).toBeNull()
+    expect(parseAmount('free', 'USD')).toBeNull()
+  })
+})
+
+describe('toCurrencyCode', () => {
+  it('accepts codes and symbols', () => {
+    expect(toCurrencyCode('eur')).toBe('EUR')
+    expect(toCurrencyCode('¥')).toBe('JPY')
+    expect(toCurrencyCode('$')).toBe('USD')
+    expect(toCurrencyCode('XYZ')).toBeNull()
+  })
+})
+
+describe('previewWithMapping', () => {
+  const rows = [
+    ['Date', 'Who paid', 'What', 'Amount', 'Currency'],
+    ['2026-03-01', 'Anna', 'Dinner', '42.50', 'EUR'],
+    ['2026-03-02', '', 'Taxi', '12', ''],
+    ['01/03/2026', 'Ben', 'Museum', '20', ''],
+    ['2026-03-03', 'Ben', 'Snacks', 'lots', ''],
+    ['2026-03-03', 'Ben', 'Tickets', '30', 'XYZ']
+  ]
+
+  it('guesses the columns from the headers', () => {
+    expect(guessMapping(rows[0]!)).toEqual({ payer: 1, description: 2, amount: 3, currency: 4, date: 0 })
+  })
+
+  it('turns rows into expenses and explains the ones it skips', () => {
+    const preview = previewWithMapping(rows, guessMapping(rows[0]!), 'USD')
+    expect(preview[0]).toEqual({
+      row: 2,
+      entry: { kind: 'expense', payer: 'Anna', name: 'Dinner', amountCents: 4250, currency: 'EUR', date: '2026-03-01' }
+    })
+    expect(preview.slice(1).map(row => [row.row, row.entry, row.error])).toEqual([
+      [3, null, 'No one is named as the payer'],
+      [4, null, 'Dates must look like 2026-03-01, not "01/03/2026"'],
+      [5, null, '"lots" isn\'t an amount'],
+      [6, null, 'Unknown currency "XYZ"']
+    ])
+  })
+})
+
+describe('previewSplitwise', () => {
+  const rows = [
+    ['Date', 'Description', 'Category', 'Cost', 'Currency', 'Anna', 'Ben', 'Cleo'],
+    ['2026-03-01', 'Dinner', 'Dining out', '90.00', 'USD', '60.00', '-30.00', '-30.00'],
+    ['2026-03-02', 'Taxi', 'Taxi', '20.00', 'USD', '-20.00', '20.00', '0.00'],
+    ['2026-03-03', 'Hotel', 'Hotel', '100.00', 'USD', '-70.00', '90.00', '-20.00'],
+    ['2026-03-04', 'Ben paid Anna', 'Payment', '30.00', 'USD', '-30.00', '30.00', '0.00'],
+    ['2026-03-05', 'Total balance', '', '', 'USD', '10.00', '-10.00', '0.00']
+  ]
+
+  it('recognizes the export by its headers', () => {
+    expect(isSplitwiseExport(rows[0]!)).toBe(true)
+    expect(isSplitwiseExport(['Date', 'Description', 'Amount'])).toBe(false)
+  })
+
+  it('reads expenses, who shared them and payments, skipping the totals', () => {
+    const preview = previewSplitwise(rows, 'USD')
+    expect(preview.map(row => row.entry)).toEqual([
+      { kind: 'expense', payer: 'Anna', name: 'Dinner', amountCents: 9000, currency: 'USD', date: '2026-03-01' },
+      {
+        kind: 'expense',
+        payer: 'Ben',
+        name: 'Taxi',
+        amountCents: 2000,
+        currency: 'USD',
+        date: '2026-03-02',
+        participants: ['Anna']
+      },
+      { kind: 'expense', payer: 'Ben', name: 'Hotel', amountCents: 10000, currency: 'USD', date: '2026-03-03' },
+      { kind: 'payment', from: 'Ben', to: 'Anna', amountCents: 3000, date: '2026-03-04' }
+    ])
+  })
+
+  it('warns when an uneven split will become even', () => {
+    const preview = previewSplitwise(rows, 'USD')
+    expect(preview[0]!.warning).toBeUndefined()
+    expect(preview[2]!.warning).toBe('Split unevenly in Splitwise; will be split evenly')
+  })
+
+  it('only takes payments in the event currency', () => {
+    const preview = previewSplitwise(rows, 'EUR')
+    expect(preview[0]!.entry).toMatchObject({ amountCents: 9000, currency: 'USD' })
+    expect(preview[3]!.error).toBe('Payments in another currency aren\'t supported')
+  })
+})
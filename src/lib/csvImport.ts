@@ -0,0 +1,239 @@
+import { CURRENCIES, getCurrency } from './currency'
+
+/**
+ * Turns rows of an expenses spreadsheet, or a Splitwise export, into expenses and
+ * payments ready to add to a split. Nothing here touches the state: the caller
+ * reviews the preview and commits the entries it wants.
+ */
+
+export interface ImportedExpense {
+  kind: 'expense'
+  payer: string
+  name: string
+  amountCents: number
+  currency?: string // ISO code, when the row names one
+  date?: string
+  participants?: string[] // Names; everyone when absent
+}
+
+export interface ImportedPayment {
+  kind: 'payment'
+  from: string
+  to: string
+  amountCents: number
+  date?: string
+}
+
+export type ImportedEntry = ImportedExpense | ImportedPayment
+
+export interface PreviewRow {
+  row: number // 1-based, counting the header row
+  entry: ImportedEntry | null // null when the row can't be imported
+  error?: string
+  warning?: string
+}
+
+/**
+ * Which column holds each field (by index), for spreadsheets laid out any way
+ */
+export interface ColumnMapping {
+  payer: number | null
+  description: number | null
+  amount: number | null
+  currency: number | null
+  date: number | null
+}
+
+// Splitwise exports: Date, Description, Category, Cost, Currency, then one column per member
+const SPLITWISE_COLUMNS = ['date', 'description', 'category', 'cost', 'currency']
+const SPLITWISE_MEMBERS_START = SPLITWISE_COLUMNS.length
+
+// Header names guessed for each field when mapping columns, lowercased
+const HEADER_GUESSES: Record<keyof ColumnMapping, string[]> = {
+  payer: ['paid by', 'payer', 'person', 'who', 'name'],
+  description: ['description', 'item', 'expense', 'what', 'details'],
+  amount: ['amount', 'cost', 'price', 'total', 'value'],
+  currency: ['currency'],
+  date: ['date', 'day', 'when'],
+}
+
+/**
+ * Parses an amount as typed in a spreadsheet ("1,234.50", "1.234,50", "$12") into the
+ * currency's minor units. The last separator with one or two digits after it (up to
+ * three for currencies with three decimals) is taken as the decimal point.
+ */
+export function parseAmount(text: string, currency: string): number | null {
+  const cleaned = text.replace(/[^\d.,-]/g, '')
+  if (!/\d/.test(cleaned)) return null
+
+  const maxDecimals = Math.max(2, getCurrency(currency).minorUnits)
+  const decimalMatch = cleaned.match(new RegExp(`[.,](\\d{1,${maxDecimals}})$`))
+  const whole = (decimalMatch ? cleaned.slice(0, -decimalMatch[0].length) : cleaned).replace(/[.,]/g, '')
+  const value = parseFloat(`${whole || '0'}.${decimalMatch?.[1] ?? '0'}`)
+  return Number.isFinite(value) ? Math.round(value * 10 ** getCurrency(currency).minorUnits) : null
+}
+
+/**
+ * The ISO code for a currency written as a code or a symbol, or null if unknown.
+ * Symbols several currencies share ("$", "kr") go to the first one listed.
+ */
+export function toCurrencyCode(text: string): string | null {
+  const trimmed = text.trim()
+  const byCode = CURRENCIES.find(c => c.code === trimmed.toUpperCase())
+  return (byCode ?? CURRENCIES.find(c => c.symbol === trimmed))?.code ?? null
+}
+
+/**
+ * Accepts ISO dates, including ones with a time ("2026-03-01T18:00:00Z")
+ */
+function parseDate(text: string): string | null {
+  const match = text.trim().match(/^(\d{4}-\d{2}-\d{2})(?:[T ].*)?$/)
+  return match ? match[1]! : null
+}
+
+export function isSplitwiseExport(headers: string[]): boolean {
+  return SPLITWISE_COLUMNS.every((name, index) => headers[index]?.trim().toLowerCase() === name) &&
+    headers.length > SPLITWISE_MEMBERS_START
+}
+
+/**
+ * Picks a likely column for each field from the header names
+ */
+export function guessMapping(headers: string[]): ColumnMapping {
+  const normalized = headers.map(header => header.trim().toLowerCase())
+  const used = new Set<number>()
+  const mapping = {} as ColumnMapping
+
+  for (const field of Object.keys(HEADER_GUESSES) as (keyof ColumnMapping)[]) {
+    let found: number | null = null
+    for (const guess of HEADER_GUESSES[field]) {
+      const index = normalized.findIndex((header, i) => !used.has(i) && header.includes(guess))
+      if (index !== -1) {
+        found = index
+        break
+      }
+    }
+    if (found !== null) used.add(found)
+    mapping[field] = found
+  }
+
+  return mapping
+}
+
+/**
+ * Reads a spreadsheet with one expense per row, using the given column mapping.
+ * Expenses are shared by everyone.
+ *
+ * @param currency - The event currency, for rows that don't name one
+ */
+export function previewWithMapping(rows: string[][], mapping: ColumnMapping, currency: string): PreviewRow[] {
+  return rows.slice(1).map((cells, index) => {
+    const row = index + 2
+    const cell = (column: number | null) => (column === null ? '' : (cells[column] ?? '').trim())
+
+    const payer = cell(mapping.payer)
+    if (!payer) return { row, entry: null, error: 'No one is named as the payer' }
+
+    const currencyText = cell(mapping.currency)
+    const rowCurrency = currencyText ? toCurrencyCode(currencyText) : currency
+    if (!rowCurrency) return { row, entry: null, error: `Unknown currency "${currencyText}"` }
+
+    const amountCents = parseAmount(cell(mapping.amount), rowCurrency)
+    if (amountCents === null) return { row, entry: null, error: `"${cell(mapping.amount)}" isn't an amount` }
+    if (amountCents < 0) return { row, entry: null, error: 'Negative amounts (refunds) aren\'t supported' }
+
+    const entry: ImportedExpense = { kind: 'expense', payer, name: cell(mapping.description), amountCents }
+    if (currencyText) entry.currency = rowCurrency
+
+    const dateText = cell(mapping.date)
+    if (dateText) {
+      const date = parseDate(dateText)
+      if (!date) return { row, entry: null, error: `Dates must look like 2026-03-01, not "${dateText}"` }
+      entry.date = date
+    }
+
+    return { row, entry }
+  })
+}
+
+/**
+ * Reads a Splitwise export. Each member's column holds what the row changed their
+ * balance by: positive for whoever paid, negative for everyone who owes a share.
+ * Payments between members become recorded payments.
+ *
+ * @param currency - The event currency, for rows that don't name one
+ */
+export function previewSplitwise(rows: string[][], currency: string): PreviewRow[] {
+  const members = rows[0]!.slice(SPLITWISE_MEMBERS_START).map(name => name.trim())
+  const preview: PreviewRow[] = []
+
+  rows.slice(1).forEach((cells, index) => {
+    const row = index + 2
+    const [dateText = '', description = '', category = '', costText = '', currencyText = ''] = cells.map(c => c.trim())
+    // The closing summary row isn't an expense
+    if (description.toLowerCase() === 'total balance') return
+
+    const rowCurrency = currencyText ? toCurrencyCode(currencyText) : currency
+    if (!rowCurrency) {
+      preview.push({ row, entry: null, error: `Unknown currency "${currencyText}"` })
+      return
+    }
+
+    const costCents = parseAmount(costText, rowCurrency)
+    if (costCents === null || costCents <= 0) {
+      preview.push({ row, entry: null, error: `"${costText}" isn't an amount` })
+      return
+    }
+
+    const date = parseDate(dateText) ?? undefined
+    const changes = members.map((name, i) => ({
+      name,
+      cents: parseAmount(cells[SPLITWISE_MEMBERS_START + i] ?? '', rowCurrency) ?? 0
+    }))
+    const payers = changes.filter(change => change.cents > 0)
+    const owers = changes.filter(change => change.cents < 0)
+
+    if (category.toLowerCase() === 'payment') {
+      // Recorded payments are always in the event currency
+      if (rowCurrency !== currency) {
+        preview.push({ row, entry: null, error: 'Payments in another currency aren\'t supported' })
+        return
+      }
+      if (payers.length !== 1 || owers.length !== 1) {
+        preview.push({ row, entry: null, error: 'A payment should be between exactly two people' })
+        return
+      }
+      preview.push({ row, entry: { kind: 'payment', from: payers[0]!.name, to: owers[0]!.name, amountCents: costCents, date } })
+      return
+    }
+
+    if (payers.length !== 1) {
+      preview.push({
+        row,
+        entry: null,
+        error: payers.length === 0 ? 'No one is shown as paying' : 'Expenses paid by more than one person aren\'t supported'
+      })
+      return
+    }
+
+    const payer = payers[0]!
+    // The payer's balance rose by the cost minus their own share
+    const payerShare = costCents - payer.cents
+    const shares = owers.map(ower => -ower.cents)
+    if (payerShare > 0) shares.push(payerShare)
+    const participants = [...owers.map(ower => ower.name), ...(payerShare > 0 ? [payer.name] : [])]
+
+    const entry: ImportedExpense = { kind: 'expense', payer: payer.name, name: description, amountCents: costCents }
+    if (currencyText) entry.currency = rowCurrency
+    if (date) entry.date = date
+    if (participants.length < members.length) {
+      entry.participants = members.filter(name => participants.includes(name))
+    }
+
+    // Shares are always even here; Splitwise rounds to the cent, so allow a cent either way
+    const isUneven = Math.max(...shares) - Math.min(...shares) > 1
+    preview.push(isUneven ? { row, entry, warning: 'Split unevenly in Splitwise; will be split evenly' } : { row, entry })
+  })
+
+  return preview
+}
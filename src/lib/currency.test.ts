@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest'
+import {
+  LOCALES,
+  formatAmount,
+  formatAmountInput,
+  formatMoney,
+  getAmountFormat,
+  getCurrency,
+  formatDecimalInput,
+  parseAmountInput,
+  parseDecimalInput,
+  toMinorUnits
+} from './currency'
+
+describe('getCurrency', () => {
+  it('falls back to two decimals for codes it does not list', () => {
+    expect(getCurrency('JPY').minorUnits).toBe(0)
+    expect(getCurrency('XYZ')).toEqual({ code: 'XYZ', name: 'XYZ', symbol: 'XYZ', minorUnits: 2 })
+  })
+})
+
+describe('toMinorUnits', () => {
+  it('uses the currency\'s decimals', () => {
+    expect(toMinorUnits(12.5, 'USD')).toBe(1250)
+    expect(toMinorUnits(1234, 'JPY')).toBe(1234)
+    expect(toMinorUnits(1.234, 'KWD')).toBe(1234)
+  })
+})
+
+describe('formatAmount', () => {
+  it('writes as many decimals as the currency has', () => {
+    expect(formatAmount(1250, 'USD')).toBe('12.50')
+    expect(formatAmount(1234, 'JPY')).toBe('1234')
+    expect(formatAmount(1234, 'KWD')).toBe('1.234')
+  })
+})
+
+describe('formatMoney', () => {
+  it('shows the symbol and the right number of decimals', () => {
+    expect(formatMoney(123450, 'USD', 'en-US')).toBe('$1,234.50')
+    expect(formatMoney(1234, 'JPY', 'en-US')).toBe('¥1,234')
+    expect(formatMoney(1234, 'KWD', 'en-US')).toBe('KWD\u00a01.234')
+  })
+
+  it('follows the locale', () => {
+    // Intl puts a no-break space between the amount and a code or trailing symbol
+    expect(formatMoney(123450, 'EUR', 'de-DE')).toBe('1.234,50\u00a0€')
+  })
+
+  it('falls back to the code for malformed codes', () => {
+    expect(formatMoney(1250, 'X', 'en-US')).toBe('X 12.50')
+  })
+})
+
+describe('getAmountFormat', () => {
+  it('reads the separators and symbol placement from the locale', () => {
+    expect(getAmountFormat('USD', 'en-US')).toEqual({ decimal: '.', group: ',', symbolFirst: true })
+    expect(getAmountFormat('EUR', 'de-DE')).toEqual({ decimal: ',', group: '.', symbolFirst: false })
+    expect(getAmountFormat('EUR', 'fr-FR')).toEqual({ decimal: ',', group: '\u202f', symbolFirst: false })
+  })
+})
+
+describe('amount inputs', () => {
+  it('writes amounts the way the locale does', () => {
+    // French groups digits with a narrow no-break space
+    expect(formatAmountInput(123450, 'USD', 'en-US')).toBe('1,234.50')
+    expect(formatAmountInput(123450, 'EUR', 'de-DE')).toBe('1.234,50')
+    expect(formatAmountInput(123450, 'EUR', 'fr-FR')).toBe('1\u202f234,50')
+    expect(formatAmountInput(123450, 'CHF', 'de-CH')).toBe('1’234.50')
+    expect(formatAmountInput(1234, 'JPY', 'ja-JP')).toBe('1,234')
+  })
+
+  it('reads what people type in their locale', () => {
+    expect(parseAmountInput('12,50', 'EUR', 'de-DE')).toBe(1250)
+    expect(parseAmountInput('1.234,5', 'EUR', 'de-DE')).toBe(123450)
+    expect(parseAmountInput('1 234,50 €', 'EUR', 'fr-FR')).toBe(123450)
+    expect(parseAmountInput("1'234.50", 'CHF', 'de-CH')).toBe(123450)
+    expect(parseAmountInput('$1,234.5', 'USD', 'en-US')).toBe(123450)
+    expect(parseAmountInput('12,500', 'KWD', 'de-DE')).toBe(12500)
+    expect(parseAmountInput('', 'USD', 'en-US')).toBeNull()
+  })
+
+  it('takes a lone separator before fewer than three digits as the decimal point', () => {
+    expect(parseAmountInput('12.50', 'EUR', 'de-DE')).toBe(1250)
+    expect(parseAmountInput('12,5', 'USD', 'en-US')).toBe(1250)
+    expect(parseAmountInput('1.234', 'EUR', 'de-DE')).toBe(123400)
+    expect(parseAmountInput('12,34,567.50', 'INR', 'en-IN')).toBe(123456750)
+  })
+
+  it('rejects separators that make no sense', () => {
+    expect(parseAmountInput('1.2.3', 'USD', 'en-US')).toBeNull()
+    expect(parseAmountInput('1,5,50', 'EUR', 'de-DE')).toBeNull()
+    expect(parseAmountInput('1.23.456', 'EUR', 'de-DE')).toBeNull()
+  })
+
+  it('rejects more decimals than the currency has', () => {
+    expect(parseAmountInput('1,2345', 'EUR', 'de-DE')).toBeNull()
+    expect(parseAmountInput('12.5', 'JPY', 'en-US')).toBeNull()
+    expect(parseAmountInput('1,234', 'KWD', 'de-DE')).toBe(1234)
+  })
+
+  it('round-trips amounts through the input in every locale', () => {
+    const cases: [string, number][] = [['USD', 123456789], ['EUR', 5], ['JPY', 98000], ['KWD', 1234567]]
+    for (const { code: locale } of LOCALES) {
+      for (const [code, amount] of cases) {
+        expect(parseAmountInput(formatAmountInput(amount, code, locale), code, locale)).toBe(amount)
+      }
+    }
+  })
+})
+
+describe('decimal inputs', () => {
+  it('reads percentages and rates with the locale\'s decimal comma', () => {
+    expect(parseDecimalInput('8,5', 'de-DE')).toBe(8.5)
+    expect(parseDecimalInput('1,08', 'fr-FR')).toBe(1.08)
+    expect(parseDecimalInput('0,0065', 'de-DE')).toBe(0.0065)
+    expect(parseDecimalInput('8.5', 'en-US')).toBe(8.5)
+    expect(parseDecimalInput('8,5', 'en-US')).toBe(8.5)
+    expect(parseDecimalInput('8,5%', 'de-DE')).toBe(8.5)
+  })
+
+  it('rejects what it can\'t read', () => {
+    expect(parseDecimalInput('', 'de-DE')).toBeNull()
+    expect(parseDecimalInput('1,2,3', 'de-DE')).toBeNull()
+  })
+
+  it('writes them back the same way', () => {
+    expect(formatDecimalInput(8.5, 'de-DE')).toBe('8,5')
+    expect(formatDecimalInput(1.0825, 'en-US')).toBe('1.0825')
+    expect(parseDecimalInput(formatDecimalInput(0.0065, 'fr-FR'), 'fr-FR')).toBe(0.0065)
+  })
+})
@@ -0,0 +1,238 @@
+/**
+ * Currencies by ISO 4217 code. Amounts are stored as whole numbers of the currency's
+ * minor unit (cents, pence, fils...), so how many decimals that is has to come from
+ * here: 2 for dollars, 0 for yen, 3 for dinars.
+ */
+
+export interface Currency {
+  code: string // ISO 4217
+  name: string
+  symbol: string // Short label for tight spots like the item currency picker
+  minorUnits: number // Decimal places of the minor unit
+}
+
+export const CURRENCIES: Currency[] = [
+  { code: 'USD', name: 'US Dollar', symbol: '$', minorUnits: 2 },
+  { code: 'EUR', name: 'Euro', symbol: '€', minorUnits: 2 },
+  { code: 'GBP', name: 'British Pound', symbol: '£', minorUnits: 2 },
+  { code: 'JPY', name: 'Japanese Yen', symbol: '¥', minorUnits: 0 },
+  { code: 'CNY', name: 'Chinese Yuan', symbol: 'CN¥', minorUnits: 2 },
+  { code: 'INR', name: 'Indian Rupee', symbol: '₹', minorUnits: 2 },
+  { code: 'KRW', name: 'South Korean Won', symbol: '₩', minorUnits: 0 },
+  { code: 'BRL', name: 'Brazilian Real', symbol: 'R$', minorUnits: 2 },
+  { code: 'CAD', name: 'Canadian Dollar', symbol: 'CA$', minorUnits: 2 },
+  { code: 'AUD', name: 'Australian Dollar', symbol: 'A$', minorUnits: 2 },
+  { code: 'MXN', name: 'Mexican Peso', symbol: 'MX$', minorUnits: 2 },
+  { code: 'CHF', name: 'Swiss Franc', symbol: 'CHF', minorUnits: 2 },
+  { code: 'SEK', name: 'Swedish Krona', symbol: 'kr', minorUnits: 2 },
+  { code: 'NOK', name: 'Norwegian Krone', symbol: 'kr', minorUnits: 2 },
+  { code: 'DKK', name: 'Danish Krone', symbol: 'kr', minorUnits: 2 },
+  { code: 'PLN', name: 'Polish Złoty', symbol: 'zł', minorUnits: 2 },
+  { code: 'RUB', name: 'Russian Ruble', symbol: '₽', minorUnits: 2 },
+  { code: 'TRY', name: 'Turkish Lira', symbol: '₺', minorUnits: 2 },
+  { code: 'THB', name: 'Thai Baht', symbol: '฿', minorUnits: 2 },
+  { code: 'VND', name: 'Vietnamese Dong', symbol: '₫', minorUnits: 0 },
+  { code: 'ZAR', name: 'South African Rand', symbol: 'R', minorUnits: 2 },
+  { code: 'AED', name: 'UAE Dirham', symbol: 'AED', minorUnits: 2 },
+  { code: 'KWD', name: 'Kuwaiti Dinar', symbol: 'KD', minorUnits: 3 },
+  { code: 'BHD', name: 'Bahraini Dinar', symbol: 'BD', minorUnits: 3 },
+]
+
+export const DEFAULT_CURRENCY = 'USD'
+
+/**
+ * The currency for a code. Codes this build doesn't list (from a newer build, or sent
+ * straight to the API) get two decimals and the code as their symbol.
+ */
+export function getCurrency(code: string): Currency {
+  return CURRENCIES.find(c => c.code === code) ?? { code, name: code, symbol: code, minorUnits: 2 }
+}
+
+/**
+ * Converts an amount in major units (12.5 dollars) to minor units (1250 cents)
+ */
+export function toMinorUnits(amount: number, code: string): number {
+  return Math.round(amount * 10 ** getCurrency(code).minorUnits)
+}
+
+/**
+ * Converts an amount in minor units to major units
+ */
+export function fromMinorUnits(amount: number, code: string): number {
+  return amount / 10 ** getCurrency(code).minorUnits
+}
+
+/**
+ * A plain decimal amount with the currency's number of decimals ("12.50", "1234"),
+ * for inputs and spreadsheets
+ */
+export function formatAmount(amount: number, code: string): string {
+  return fromMinorUnits(amount, code).toFixed(getCurrency(code).minorUnits)
+}
+
+const formatters = new Map<string, Intl.NumberFormat>()
+
+/**
+ * An amount for display, with the currency's symbol and the locale's separators
+ * ("$1,234.50", "¥1,234", "1.234,50 €")
+ *
+ * @param locale - Defaults to the browser's
+ */
+export function formatMoney(amount: number, code: string, locale?: string): string {
+  const key = `${locale ?? ''}|${code}`
+  let formatter = formatters.get(key)
+  if (!formatter) {
+    const { minorUnits } = getCurrency(code)
+    try {
+      formatter = new Intl.NumberFormat(locale, {
+        style: 'currency',
+        currency: code,
+        minimumFractionDigits: minorUnits,
+        maximumFractionDigits: minorUnits,
+      })
+    } catch {
+      // Not a well-formed currency code; show the amount after it instead
+      return `${code} ${formatAmount(amount, code)}`
+    }
+    formatters.set(key, formatter)
+  }
+  return formatter.format(fromMinorUnits(amount, code))
+}
+
+/**
+ * Number formats people can pick instead of their browser's, by BCP 47 tag
+ */
+export const LOCALES = [
+  { code: 'en-US', name: 'English (US)' },
+  { code: 'en-GB', name: 'English (UK)' },
+  { code: 'en-IN', name: 'English (India)' },
+  { code: 'de-DE', name: 'Deutsch' },
+  { code: 'de-CH', name: 'Deutsch (Schweiz)' },
+  { code: 'fr-FR', name: 'Français' },
+  { code: 'es-ES', name: 'Español' },
+  { code: 'it-IT', name: 'Italiano' },
+  { code: 'nl-NL', name: 'Nederlands' },
+  { code: 'pt-BR', name: 'Português (Brasil)' },
+  { code: 'pl-PL', name: 'Polski' },
+  { code: 'sv-SE', name: 'Svenska' },
+  { code: 'ja-JP', name: '日本語' },
+]
+
+export interface AmountFormat {
+  decimal: string // Decimal separator ("." or ",")
+  group: string // Thousands separator, which may be a (no-break) space
+  symbolFirst: boolean // Whether the currency goes before the amount
+}
+
+/**
+ * How amounts in a currency are written in a locale
+ *
+ * @param locale - Defaults to the browser's
+ */
+export function getAmountFormat(code: string, locale?: string): AmountFormat {
+  let parts: Intl.NumberFormatPart[]
+  try {
+    parts = new Intl.NumberFormat(locale, { style: 'currency', currency: code, minimumFractionDigits: 1 })
+      .formatToParts(1234567.5)
+  } catch {
+    return { decimal: '.', group: ',', symbolFirst: true }
+  }
+  const index = (type: string) => parts.findIndex(part => part.type === type)
+  return {
+    decimal: parts[index('decimal')]?.value ?? '.',
+    group: parts[index('group')]?.value ?? '',
+    symbolFirst: index('currency') < index('integer')
+  }
+}
+
+/**
+ * An amount for an input, with the locale's separators but no symbol ("1,234.50",
+ * "1.234,50", "1 234")
+ */
+export function formatAmountInput(amount: number, code: string, locale?: string): string {
+  const { minorUnits } = getCurrency(code)
+  return new Intl.NumberFormat(locale, { minimumFractionDigits: minorUnits, maximumFractionDigits: minorUnits })
+    .format(fromMinorUnits(amount, code))
+}
+
+// Characters people use between digit groups or before decimals, in any locale
+const SEPARATOR = /[.,'’\s]/
+
+// The whole and fractional digits of a number typed with the given decimal separator,
+// or null if the separators don't make sense
+function readDigits(text: string, decimal: string, locale?: string): { whole: string; fraction: string } | null {
+  const kept = [...text]
+    .filter(char => /\d/.test(char) || char === decimal || SEPARATOR.test(char))
+    .join('')
+    .replace(/\s+/g, ' ')
+    .trim()
+  if (!/\d/.test(kept)) return null
+
+  // Alternating digit runs and separators: [digits, separator, digits, ...]
+  const tokens = kept.split(/(\D)/)
+  const runs = tokens.filter((_, i) => i % 2 === 0)
+  const separators = tokens.filter((_, i) => i % 2 === 1)
+
+  let decimalAt = separators.indexOf(decimal)
+  if (decimalAt !== -1 && decimalAt !== separators.lastIndexOf(decimal)) return null
+  if (decimalAt === -1 && separators.length > 0) {
+    // Without the locale's decimal separator, a final "." or "," that isn't followed by
+    // a full group is taken as the decimal point
+    const last = separators.length - 1
+    if (/[.,]/.test(separators[last]!) && runs[last + 1]!.length !== 3) decimalAt = last
+  }
+  if (decimalAt !== -1 && decimalAt !== separators.length - 1) return null
+
+  // Groups after the first have three digits, except in locales like India's that
+  // group the ones before the last in twos (12,34,567)
+  const middleGroupLength = new Intl.NumberFormat(locale).format(1234567).split(/\D/)[1]?.length ?? 3
+  const groupCount = decimalAt === -1 ? separators.length : decimalAt
+  for (let i = 1; i <= groupCount; i++) {
+    if (runs[i]!.length !== (i === groupCount ? 3 : middleGroupLength)) return null
+  }
+  if (runs[0] === '' && groupCount > 0) return null
+
+  return {
+    whole: runs.slice(0, groupCount + 1).join('') || '0',
+    fraction: decimalAt === -1 ? '' : runs[decimalAt + 1]!
+  }
+}
+
+/**
+ * Reads an amount typed in a locale's format into minor units. Symbols and letters
+ * are ignored. A separator other than the locale's decimal one only counts as grouping
+ * when a full group of digits follows it, so "12.50" typed with a decimal-comma locale
+ * is still twelve and a half rather than 1,250.
+ *
+ * @returns null if there's no number, the separators don't make sense ("1.2.3"), or it
+ * has more decimals than the currency ("1,2345" in euros)
+ */
+export function parseAmountInput(text: string, code: string, locale?: string): number | null {
+  const digits = readDigits(text, getAmountFormat(code, locale).decimal, locale)
+  if (!digits || digits.fraction.length > getCurrency(code).minorUnits) return null
+  return toMinorUnits(parseFloat(`${digits.whole}.${digits.fraction || '0'}`), code)
+}
+
+// The decimal separator of a locale, for numbers that aren't amounts
+function getDecimalSeparator(locale?: string): string {
+  return new Intl.NumberFormat(locale).formatToParts(1.5).find(part => part.type === 'decimal')?.value ?? '.'
+}
+
+/**
+ * A plain number like a percentage or an exchange rate for an input, with the locale's
+ * decimal separator ("8.5", "8,5")
+ */
+export function formatDecimalInput(value: number, locale?: string): string {
+  return new Intl.NumberFormat(locale, { maximumFractionDigits: 10, useGrouping: false }).format(value)
+}
+
+/**
+ * Reads a plain number like a percentage or an exchange rate typed in a locale's format,
+ * the same way amounts are read
+ *
+ * @returns null if there's no number or the separators don't make sense
+ */
+export function parseDecimalInput(text: string, locale?: string): number | null {
+  const digits = readDigits(text, getDecimalSeparator(locale), locale)
+  return digits ? parseFloat(`${digits.whole}.${digits.fraction || '0'}`) : null
+}
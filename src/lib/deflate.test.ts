@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest'
+import { deflateRaw, inflateRaw } from './deflate'
+
+const encoder = new TextEncoder()
+const decoder = new TextDecoder()
+
+function roundtrip(text: string): string {
+  return decoder.decode(inflateRaw(deflateRaw(encoder.encode(text))))
+}
+
+describe('deflate', () => {
+  it('roundtrips empty and tiny inputs', () => {
+    expect(roundtrip('')).toBe('')
+    expect(roundtrip('a')).toBe('a')
+    expect(roundtrip('abc')).toBe('abc')
+  })
+
+  it('roundtrips unicode text', () => {
+    const text = 'Café ☕ — 東京 🍣 — Zoë paid €12.50'
+    expect(roundtrip(text)).toBe(text)
+  })
+
+  it('roundtrips long runs and overlapping matches', () => {
+    const text = 'a'.repeat(1000) + 'ab'.repeat(500) + 'xyz'.repeat(300)
+    expect(roundtrip(text)).toBe(text)
+  })
+
+  it('roundtrips inputs larger than the match window', () => {
+    let seed = 1
+    const chars = Array.from({ length: 70000 }, () => {
+      seed = (seed * 1103515245 + 12345) & 0x7fffffff
+      return 'abcdefgh'[seed % 8]
+    })
+    const text = chars.join('')
+    expect(roundtrip(text)).toBe(text)
+  })
+
+  it('shrinks repetitive JSON', () => {
+    const json = JSON.stringify(
+      Array.from({ length: 50 }, (_, i) => ({ i: `id${i}`, n: 'Dinner', a: 2500 }))
+    )
+    expect(deflateRaw(encoder.encode(json)).length).toBeLessThan(json.length / 4)
+  })
+
+  it('inflates stored blocks', () => {
+    // Final stored block holding "hi"
+    const stored = Uint8Array.from([0x01, 0x02, 0x00, 0xfd, 0xff, 0x68, 0x69])
+    expect(decoder.decode(inflateRaw(stored))).toBe('hi')
+  })
+
+  it('rejects truncated and malformed data', () => {
+    const compressed = deflateRaw(encoder.encode('hello hello hello hello'))
+    expect(() => inflateRaw(compressed.slice(0, compressed.length - 2))).toThrow()
+    expect(() => inflateRaw(Uint8Array.from([0x07]))).toThrow()
+  })
+
+  it('refuses to inflate beyond the output limit', () => {
+    const compressed = deflateRaw(new Uint8Array(10000))
+    expect(() => inflateRaw(compressed, 1000)).toThrow('too large')
+    expect(inflateRaw(compressed).length).toBe(10000)
+  })
+})
@@ -0,0 +1,546 @@
+/**
+ * Synchronous raw DEFLATE (RFC 1951) in plain TypeScript.
+ *
+ * URL state is encoded on every keystroke (to check the URL length), so this can't use
+ * the asynchronous CompressionStream API. Payloads are a few kilobytes of JSON, which
+ * keeps a straightforward LZ77 + Huffman implementation more than fast enough.
+ */
+
+const WINDOW_SIZE = 32768
+const WINDOW_MASK = WINDOW_SIZE - 1
+const MIN_MATCH = 3
+const MAX_MATCH = 258
+const HASH_BITS = 15
+const HASH_MASK = (1 << HASH_BITS) - 1
+// How many earlier positions to try per match, the match length that ends the search
+// early, and the length that's good enough to skip looking for a longer one at the next byte
+const MAX_CHAIN = 64
+const NICE_MATCH = 128
+const LAZY_MATCH_LIMIT = 32
+
+const END_OF_BLOCK = 256
+const MAX_CODE_BITS = 15
+const MAX_CODE_LENGTH_BITS = 7
+
+// Refuse to inflate beyond this, so a crafted link can't exhaust memory
+const DEFAULT_MAX_OUTPUT = 1 << 20
+
+const LENGTH_BASE = [
+  3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31,
+  35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258
+]
+const LENGTH_EXTRA = [
+  0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2,
+  3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0
+]
+const DISTANCE_BASE = [
+  1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193,
+  257, 385, 513, 769, 1025, 1537, 2049, 3073, 4097, 6145, 8193, 12289, 16385, 24577
+]
+const DISTANCE_EXTRA = [
+  0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6,
+  7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13
+]
+// Order in which code length code lengths are stored in a dynamic block header
+const CODE_LENGTH_ORDER = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15]
+
+const FIXED_LITERAL_LENGTHS = Array.from({ length: 288 }, (_, symbol) =>
+  symbol < 144 ? 8 : symbol < 256 ? 9 : symbol < 280 ? 7 : 8
+)
+const FIXED_DISTANCE_LENGTHS = new Array<number>(30).fill(5)
+
+// ---------------------------------------------------------------------------
+// Compression
+// ---------------------------------------------------------------------------
+
+/**
+ * LZ77 output: literal bytes (length 0) and back-references (length, distance)
+ */
+interface Tokens {
+  lengths: number[]
+  values: number[]
+}
+
+interface BitWriter {
+  bytes: number[]
+  buffer: number
+  count: number
+}
+
+function writeBits(writer: BitWriter, value: number, count: number): void {
+  writer.buffer |= value << writer.count
+  writer.count += count
+  while (writer.count >= 8) {
+    writer.bytes.push(writer.buffer & 0xff)
+    writer.buffer >>>= 8
+    writer.count -= 8
+  }
+}
+
+/**
+ * Huffman codes are packed starting from their most significant bit
+ */
+function writeCode(writer: BitWriter, code: number, length: number): void {
+  let reversed = 0
+  for (let i = 0; i < length; i++) {
+    reversed = (reversed << 1) | ((code >> i) & 1)
+  }
+  writeBits(writer, reversed, length)
+}
+
+function flushBits(writer: BitWriter): Uint8Array {
+  if (writer.count > 0) writer.bytes.push(writer.buffer & 0xff)
+  return Uint8Array.from(writer.bytes)
+}
+
+function findLengthCode(length: number): number {
+  let code = 0
+  while (code < LENGTH_BASE.length - 1 && LENGTH_BASE[code + 1]! <= length) code++
+  return code
+}
+
+function findDistanceCode(distance: number): number {
+  let code = 0
+  while (code < DISTANCE_BASE.length - 1 && DISTANCE_BASE[code + 1]! <= distance) code++
+  return code
+}
+
+function findMatches(data: Uint8Array): Tokens {
+  const tokens: Tokens = { lengths: [], values: [] }
+  const head = new Int32Array(1 << HASH_BITS).fill(-1)
+  const prev = new Int32Array(WINDOW_SIZE).fill(-1)
+
+  const hashAt = (pos: number) =>
+    ((data[pos]! << 10) ^ (data[pos + 1]! << 5) ^ data[pos + 2]!) & HASH_MASK
+
+  const insert = (pos: number) => {
+    if (pos + MIN_MATCH > data.length) return
+    const hash = hashAt(pos)
+    prev[pos & WINDOW_MASK] = head[hash]!
+    head[hash] = pos
+  }
+
+  const longestMatch = (pos: number): { length: number; distance: number } => {
+    let best = { length: 0, distance: 0 }
+    if (pos + MIN_MATCH > data.length) return best
+    const maxLength = Math.min(MAX_MATCH, data.length - pos)
+    let candidate = head[hashAt(pos)]!
+    let chain = MAX_CHAIN
+    while (candidate >= 0 && pos - candidate <= WINDOW_SIZE && chain-- > 0) {
+      let length = 0
+      while (length < maxLength && data[candidate + length] === data[pos + length]) length++
+      if (length > best.length) {
+        best = { length, distance: pos - candidate }
+        if (length >= Math.min(maxLength, NICE_MATCH)) break
+      }
+      const next = prev[candidate & WINDOW_MASK]!
+      // Slots are reused once the window wraps, so only ever walk backwards
+      if (next >= candidate) break
+      candidate = next
+    }
+    return best.length >= MIN_MATCH ? best : { length: 0, distance: 0 }
+  }
+
+  let pos = 0
+  while (pos < data.length) {
+    const match = longestMatch(pos)
+    insert(pos)
+
+    // Lazy matching: a literal now may allow a longer match from the next byte
+    if (match.length > 0 && match.length < LAZY_MATCH_LIMIT && longestMatch(pos + 1).length > match.length) {
+      tokens.lengths.push(0)
+      tokens.values.push(data[pos]!)
+      pos++
+      continue
+    }
+
+    if (match.length > 0) {
+      tokens.lengths.push(match.length)
+      tokens.values.push(match.distance)
+      for (let i = 1; i < match.length; i++) insert(pos + i)
+      pos += match.length
+    } else {
+      tokens.lengths.push(0)
+      tokens.values.push(data[pos]!)
+      pos++
+    }
+  }
+
+  return tokens
+}
+
+/**
+ * Optimal code lengths for the given symbol frequencies, limited to maxBits.
+ * Overlong codes are clamped and the Kraft sum repaired, which costs a little
+ * compression in the rare case it's needed but keeps the code complete.
+ */
+function buildCodeLengths(frequencies: number[], maxBits: number): number[] {
+  const lengths = new Array<number>(frequencies.length).fill(0)
+  const used = frequencies.flatMap((frequency, symbol) => (frequency > 0 ? [symbol] : []))
+
+  if (used.length === 1) {
+    lengths[used[0]!] = 1
+    return lengths
+  }
+  if (used.length === 0) return lengths
+
+  // Build the tree by repeatedly merging the two lightest nodes
+  type Node = { weight: number; symbol: number; left?: Node; right?: Node }
+  let nodes: Node[] = used.map(symbol => ({ weight: frequencies[symbol]!, symbol }))
+  while (nodes.length > 1) {
+    nodes.sort((a, b) => a.weight - b.weight || a.symbol - b.symbol)
+    const [left, right] = nodes as [Node, Node]
+    nodes = [{ weight: left.weight + right.weight, symbol: -1, left, right }, ...nodes.slice(2)]
+  }
+
+  const assign = (node: Node, depth: number) => {
+    if (node.left && node.right) {
+      assign(node.left, depth + 1)
+      assign(node.right, depth + 1)
+    } else {
+      lengths[node.symbol] = depth
+    }
+  }
+  assign(nodes[0]!, 0)
+
+  if (used.every(symbol => lengths[symbol]! <= maxBits)) return lengths
+
+  for (const symbol of used) lengths[symbol] = Math.min(lengths[symbol]!, maxBits)
+  const capacity = 1 << maxBits
+  const kraft = () => used.reduce((sum, symbol) => sum + (1 << (maxBits - lengths[symbol]!)), 0)
+  // Rarest symbols first, so lengthening or shortening codes affects the fewest bits
+  const byRarity = [...used].sort((a, b) => frequencies[a]! - frequencies[b]!)
+
+  let total = kraft()
+  while (total > capacity) {
+    const symbol = byRarity
+      .filter(s => lengths[s]! < maxBits)
+      .reduce((deepest, s) => (lengths[s]! > lengths[deepest]! ? s : deepest))
+    total -= 1 << (maxBits - lengths[symbol]! - 1)
+    lengths[symbol]!++
+  }
+  while (total < capacity) {
+    const room = capacity - total
+    const symbol = byRarity
+      .filter(s => 1 << (maxBits - lengths[s]!) <= room)
+      .reduce((deepest, s) => (lengths[s]! > lengths[deepest]! ? s : deepest))
+    total += 1 << (maxBits - lengths[symbol]!)
+    lengths[symbol]!--
+  }
+
+  return lengths
+}
+
+/**
+ * Canonical Huffman codes for a set of code lengths (RFC 1951 section 3.2.2)
+ */
+function buildCodes(lengths: number[]): number[] {
+  const lengthCounts = new Array<number>(MAX_CODE_BITS + 1).fill(0)
+  for (const length of lengths) if (length > 0) lengthCounts[length]!++
+
+  const nextCode = new Array<number>(MAX_CODE_BITS + 1).fill(0)
+  let code = 0
+  for (let bits = 1; bits <= MAX_CODE_BITS; bits++) {
+    code = (code + lengthCounts[bits - 1]!) << 1
+    nextCode[bits] = code
+  }
+
+  return lengths.map(length => (length > 0 ? nextCode[length]!++ : 0))
+}
+
+/**
+ * Run-length encodes code lengths with symbols 16 (repeat previous), 17 and 18 (zeros)
+ */
+function encodeCodeLengths(lengths: number[]): { symbol: number; extra: number; extraBits: number }[] {
+  const encoded: { symbol: number; extra: number; extraBits: number }[] = []
+  let i = 0
+  while (i < lengths.length) {
+    const length = lengths[i]!
+    let run = 1
+    while (i + run < lengths.length && lengths[i + run] === length) run++
+    i += run
+
+    if (length === 0) {
+      while (run >= 11) {
+        const take = Math.min(run, 138)
+        encoded.push({ symbol: 18, extra: take - 11, extraBits: 7 })
+        run -= take
+      }
+      if (run >= 3) {
+        encoded.push({ symbol: 17, extra: run - 3, extraBits: 3 })
+        run = 0
+      }
+    } else {
+      encoded.push({ symbol: length, extra: 0, extraBits: 0 })
+      run--
+      while (run >= 3) {
+        const take = Math.min(run, 6)
+        encoded.push({ symbol: 16, extra: take - 3, extraBits: 2 })
+        run -= take
+      }
+    }
+    for (; run > 0; run--) encoded.push({ symbol: length, extra: 0, extraBits: 0 })
+  }
+  return encoded
+}
+
+function writeTokens(
+  writer: BitWriter,
+  tokens: Tokens,
+  literalLengths: number[],
+  distanceLengths: number[]
+): void {
+  const literalCodes = buildCodes(literalLengths)
+  const distanceCodes = buildCodes(distanceLengths)
+
+  for (let i = 0; i < tokens.lengths.length; i++) {
+    const length = tokens.lengths[i]!
+    const value = tokens.values[i]!
+    if (length === 0) {
+      writeCode(writer, literalCodes[value]!, literalLengths[value]!)
+      continue
+    }
+    const lengthCode = findLengthCode(length)
+    writeCode(writer, literalCodes[257 + lengthCode]!, literalLengths[257 + lengthCode]!)
+    writeBits(writer, length - LENGTH_BASE[lengthCode]!, LENGTH_EXTRA[lengthCode]!)
+    const distanceCode = findDistanceCode(value)
+    writeCode(writer, distanceCodes[distanceCode]!, distanceLengths[distanceCode]!)
+    writeBits(writer, value - DISTANCE_BASE[distanceCode]!, DISTANCE_EXTRA[distanceCode]!)
+  }
+
+  writeCode(writer, literalCodes[END_OF_BLOCK]!, literalLengths[END_OF_BLOCK]!)
+}
+
+function writeFixedBlock(tokens: Tokens): Uint8Array {
+  const writer: BitWriter = { bytes: [], buffer: 0, count: 0 }
+  writeBits(writer, 1, 1) // final block
+  writeBits(writer, 1, 2) // fixed Huffman codes
+  writeTokens(writer, tokens, FIXED_LITERAL_LENGTHS, FIXED_DISTANCE_LENGTHS)
+  return flushBits(writer)
+}
+
+function writeDynamicBlock(tokens: Tokens): Uint8Array {
+  const literalFrequencies = new Array<number>(286).fill(0)
+  const distanceFrequencies = new Array<number>(30).fill(0)
+  literalFrequencies[END_OF_BLOCK] = 1
+  for (let i = 0; i < tokens.lengths.length; i++) {
+    const length = tokens.lengths[i]!
+    if (length === 0) {
+      literalFrequencies[tokens.values[i]!]!++
+    } else {
+      literalFrequencies[257 + findLengthCode(length)]!++
+      distanceFrequencies[findDistanceCode(tokens.values[i]!)]!++
+    }
+  }
+  // A block without back-references still needs one distance code
+  if (!distanceFrequencies.some(frequency => frequency > 0)) distanceFrequencies[0] = 1
+
+  const literalLengths = buildCodeLengths(literalFrequencies, MAX_CODE_BITS)
+  const distanceLengths = buildCodeLengths(distanceFrequencies, MAX_CODE_BITS)
+
+  let literalCount = 286
+  while (literalCount > 257 && literalLengths[literalCount - 1] === 0) literalCount--
+  let distanceCount = 30
+  while (distanceCount > 1 && distanceLengths[distanceCount - 1] === 0) distanceCount--
+
+  const encodedLengths = encodeCodeLengths([
+    ...literalLengths.slice(0, literalCount),
+    ...distanceLengths.slice(0, distanceCount)
+  ])
+  const codeLengthFrequencies = new Array<number>(19).fill(0)
+  for (const { symbol } of encodedLengths) codeLengthFrequencies[symbol]!++
+  const codeLengthLengths = buildCodeLengths(codeLengthFrequencies, MAX_CODE_LENGTH_BITS)
+  const codeLengthCodes = buildCodes(codeLengthLengths)
+
+  let codeLengthCount = 19
+  while (codeLengthCount > 4 && codeLengthLengths[CODE_LENGTH_ORDER[codeLengthCount - 1]!] === 0) codeLengthCount--
+
+  const writer: BitWriter = { bytes: [], buffer: 0, count: 0 }
+  writeBits(writer, 1, 1) // final block
+  writeBits(writer, 2, 2) // dynamic Huffman codes
+  writeBits(writer, literalCount - 257, 5)
+  writeBits(writer, distanceCount - 1, 5)
+  writeBits(writer, codeLengthCount - 4, 4)
+  for (let i = 0; i < codeLengthCount; i++) {
+    writeBits(writer, codeLengthLengths[CODE_LENGTH_ORDER[i]!]!, 3)
+  }
+  for (const { symbol, extra, extraBits } of encodedLengths) {
+    writeCode(writer, codeLengthCodes[symbol]!, codeLengthLengths[symbol]!)
+    writeBits(writer, extra, extraBits)
+  }
+  writeTokens(writer, tokens, literalLengths, distanceLengths)
+  return flushBits(writer)
+}
+
+/**
+ * Compresses bytes into a single raw DEFLATE block, using whichever of the fixed
+ * or data-specific Huffman codes comes out smaller
+ */
+export function deflateRaw(data: Uint8Array): Uint8Array {
+  const tokens = findMatches(data)
+  const fixed = writeFixedBlock(tokens)
+  const dynamic = writeDynamicBlock(tokens)
+  return dynamic.length < fixed.length ? dynamic : fixed
+}
+
+// ---------------------------------------------------------------------------
+// Decompression
+// ---------------------------------------------------------------------------
+
+interface BitReader {
+  data: Uint8Array
+  pos: number
+  buffer: number
+  count: number
+}
+
+/**
+ * Canonical Huffman decoding table: how many codes of each length, and the
+ * symbols in code order
+ */
+interface HuffmanTable {
+  counts: number[]
+  symbols: number[]
+}
+
+function readBits(reader: BitReader, count: number): number {
+  while (reader.count < count) {
+    if (reader.pos >= reader.data.length) throw new Error('Unexpected end of compressed data')
+    reader.buffer |= reader.data[reader.pos++]! << reader.count
+    reader.count += 8
+  }
+  const value = reader.buffer & ((1 << count) - 1)
+  reader.buffer >>>= count
+  reader.count -= count
+  return value
+}
+
+function buildTable(lengths: number[]): HuffmanTable {
+  const counts = new Array<number>(MAX_CODE_BITS + 1).fill(0)
+  for (const length of lengths) counts[length]!++
+  counts[0] = 0
+
+  let left = 1
+  for (let bits = 1; bits <= MAX_CODE_BITS; bits++) {
+    left = (left << 1) - counts[bits]!
+    if (left < 0) throw new Error('Invalid Huffman code lengths')
+  }
+
+  const offsets = new Array<number>(MAX_CODE_BITS + 2).fill(0)
+  for (let bits = 1; bits <= MAX_CODE_BITS; bits++) offsets[bits + 1] = offsets[bits]! + counts[bits]!
+  const symbols = new Array<number>(lengths.length).fill(0)
+  lengths.forEach((length, symbol) => {
+    if (length > 0) symbols[offsets[length]!++] = symbol
+  })
+
+  return { counts, symbols }
+}
+
+function decodeSymbol(reader: BitReader, table: HuffmanTable): number {
+  let code = 0
+  let first = 0
+  let index = 0
+  for (let bits = 1; bits <= MAX_CODE_BITS; bits++) {
+    code |= readBits(reader, 1)
+    const count = table.counts[bits]!
+    if (code - first < count) return table.symbols[index + code - first]!
+    index += count
+    first = (first + count) << 1
+    code <<= 1
+  }
+  throw new Error('Invalid Huffman code')
+}
+
+function readDynamicTables(reader: BitReader): [HuffmanTable, HuffmanTable] {
+  const literalCount = readBits(reader, 5) + 257
+  const distanceCount = readBits(reader, 5) + 1
+  const codeLengthCount = readBits(reader, 4) + 4
+
+  const codeLengthLengths = new Array<number>(19).fill(0)
+  for (let i = 0; i < codeLengthCount; i++) {
+    codeLengthLengths[CODE_LENGTH_ORDER[i]!] = readBits(reader, 3)
+  }
+  const codeLengthTable = buildTable(codeLengthLengths)
+
+  const lengths: number[] = []
+  while (lengths.length < literalCount + distanceCount) {
+    const symbol = decodeSymbol(reader, codeLengthTable)
+    if (symbol < 16) {
+      lengths.push(symbol)
+      continue
+    }
+    let repeat: number
+    let value = 0
+    if (symbol === 16) {
+      if (lengths.length === 0) throw new Error('Repeated code length with no previous length')
+      value = lengths[lengths.length - 1]!
+      repeat = 3 + readBits(reader, 2)
+    } else if (symbol === 17) {
+      repeat = 3 + readBits(reader, 3)
+    } else {
+      repeat = 11 + readBits(reader, 7)
+    }
+    if (lengths.length + repeat > literalCount + distanceCount) throw new Error('Too many code lengths')
+    for (let i = 0; i < repeat; i++) lengths.push(value)
+  }
+
+  if (lengths[END_OF_BLOCK] === 0) throw new Error('Missing end-of-block code')
+  return [buildTable(lengths.slice(0, literalCount)), buildTable(lengths.slice(literalCount))]
+}
+
+/**
+ * Decompresses raw DEFLATE data. Throws on malformed input or when the output
+ * would exceed maxOutput bytes.
+ */
+export function inflateRaw(data: Uint8Array, maxOutput: number = DEFAULT_MAX_OUTPUT): Uint8Array {
+  const reader: BitReader = { data, pos: 0, buffer: 0, count: 0 }
+  const output: number[] = []
+  const fixedTables: [HuffmanTable, HuffmanTable] = [
+    buildTable(FIXED_LITERAL_LENGTHS),
+    buildTable(FIXED_DISTANCE_LENGTHS)
+  ]
+
+  let isFinal = false
+  while (!isFinal) {
+    isFinal = readBits(reader, 1) === 1
+    const type = readBits(reader, 2)
+
+    if (type === 0) {
+      // Stored block: byte-aligned length, its complement, then raw bytes
+      reader.buffer = 0
+      reader.count = 0
+      const length = readBits(reader, 16)
+      const complement = readBits(reader, 16)
+      if (length !== (~complement & 0xffff)) throw new Error('Invalid stored block length')
+      if (reader.pos + length > data.length) throw new Error('Unexpected end of compressed data')
+      if (output.length + length > maxOutput) throw new Error('Decompressed data is too large')
+      for (let i = 0; i < length; i++) output.push(data[reader.pos++]!)
+      continue
+    }
+
+    if (type === 3) throw new Error('Invalid block type')
+    const [literalTable, distanceTable] = type === 1 ? fixedTables : readDynamicTables(reader)
+
+    for (;;) {
+      const symbol = decodeSymbol(reader, literalTable)
+      if (symbol < 256) {
+        if (output.length >= maxOutput) throw new Error('Decompressed data is too large')
+        output.push(symbol)
+        continue
+      }
+      if (symbol === END_OF_BLOCK) break
+
+      const lengthCode = symbol - 257
+      if (lengthCode >= LENGTH_BASE.length) throw new Error('Invalid length code')
+      const length = LENGTH_BASE[lengthCode]! + readBits(reader, LENGTH_EXTRA[lengthCode]!)
+      const distanceCode = decodeSymbol(reader, distanceTable)
+      if (distanceCode >= DISTANCE_BASE.length) throw new Error('Invalid distance code')
+      const distance = DISTANCE_BASE[distanceCode]! + readBits(reader, DISTANCE_EXTRA[distanceCode]!)
+      if (distance > output.length) throw new Error('Distance too far back')
+      if (output.length + length > maxOutput) throw new Error('Decompressed data is too large')
+      for (let i = 0; i < length; i++) output.push(output[output.length - distance]!)
+    }
+  }
+
+  return Uint8Array.from(output)
+}
@@ -0,0 +1,15 @@
+import { describe, it, expect } from 'vitest'
+import { exportFileName } from './download'
+
+describe('exportFileName', () => {
+  const exportedAt = new Date('2026-03-01T12:00:00Z')
+
+  it('names the file after the event and date', () => {
+    expect(exportFileName({ people: [], eventName: 'Ski Trip 2026!' }, 'json', '', exportedAt)).toBe('grouppayback-ski-trip-2026-2026-03-01.json')
+    expect(exportFileName({ people: [] }, 'json', '', exportedAt)).toBe('grouppayback-2026-03-01.json')
+  })
+
+  it('includes a label for what the file holds', () => {
+    expect(exportFileName({ people: [], eventName: 'Lisbon' }, 'csv', 'expenses', exportedAt)).toBe('grouppayback-lisbon-expenses-2026-03-01.csv')
+  })
+})
@@ -0,0 +1,29 @@
+import type { AppState } from '../types'
+
+/**
+ * Saves generated contents as a file through the browser's download prompt
+ */
+export function downloadFile(fileName: string, contents: string, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([contents], { type: mimeType }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  link.click()
+  // Give the browser a moment to start the download before releasing the blob
+  setTimeout(() => URL.revokeObjectURL(url), 0)
+}
+
+/**
+ * File name for an export, e.g. "grouppayback-ski-trip-expenses-2026-03-01.csv"
+ *
+ * @param label - What the file holds, when a split exports to more than one kind of file
+ */
+export function exportFileName(state: AppState, extension: string, label = '', exportedAt: Date = new Date()): string {
+  const slug = (state.eventName ?? '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 40)
+  const date = exportedAt.toISOString().slice(0, 10)
+  return ['grouppayback', slug, label, date].filter(Boolean).join('-') + '.' + extension
+}
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest'
+import { withoutItems } from './fork'
+import type { AppState } from '../types'
+
+describe('withoutItems', () => {
+  const state: AppState = {
+    eventName: 'Dinner club',
+    currency: 'EUR',
+    charges: { tipPercent: 10 },
+    people: [
+      {
+        id: 'a',
+        name: 'Anna',
+        items: [{ id: 'i1', name: 'Pasta', amountCents: 1800 }],
+        receipts: [{ id: 'r1', name: 'Wine shop', items: [] }],
+        attendance: { from: '2026-03-01' },
+        payments: { venmo: '@anna' },
+        weight: 2
+      }
+    ],
+    paymentsMade: [{ id: 'pay1', from: 'a', to: 'a', amountCents: 100, date: '2026-03-02' }]
+  }
+
+  it('keeps people, payment handles and settings but nothing from last time', () => {
+    expect(withoutItems(state)).toEqual({
+      eventName: 'Dinner club',
+      currency: 'EUR',
+      charges: { tipPercent: 10 },
+      people: [{ id: 'a', name: 'Anna', items: [], payments: { venmo: '@anna' }, weight: 2 }]
+    })
+  })
+
+  it('leaves the original untouched', () => {
+    withoutItems(state)
+    expect(state.people[0]!.items).toHaveLength(1)
+    expect(state.paymentsMade).toHaveLength(1)
+  })
+})
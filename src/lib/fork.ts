@@ -0,0 +1,20 @@
+import type { AppState } from '../types'
+
+/**
+ * The start of a new split for a recurring event (say, next month's dinner club): the
+ * same people, payment handles and settings, with no items, attendance or recorded
+ * payments carried over from last time.
+ */
+export function withoutItems(state: AppState): AppState {
+  const fresh: AppState = {
+    ...state,
+    people: state.people.map(person => {
+      const copy = { ...person, items: [] }
+      delete copy.receipts
+      delete copy.attendance
+      return copy
+    })
+  }
+  delete fresh.paymentsMade
+  return fresh
+}
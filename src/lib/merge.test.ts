@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest'
+import { matchPeople, mergeStates } from './merge'
+import type { AppState } from '../types'
+
+const current: AppState = {
+  people: [
+    { id: 'a', name: 'Anna', items: [{ id: 'i1', name: 'Dinner', amountCents: 6000 }] },
+    { id: 'b', name: 'Ben', items: [], payments: { venmo: '@ben' } },
+    { id: 'c1', name: 'Chris', items: [] },
+    { id: 'c2', name: 'chris ', items: [] }
+  ]
+}
+
+const incoming: AppState = {
+  people: [
+    // Started from a copy of the current split's link, so Dinner is already there
+    { id: 'a', name: 'anna', items: [{ id: 'i1', name: 'Dinner', amountCents: 6000 }, { id: 'i2', name: 'Taxi', amountCents: 2000 }] },
+    { id: 'x', name: 'Ben', items: [], payments: { venmo: '@someone-else', zelle: 'ben@example.com' } },
+    { id: 'y', name: 'Chris', items: [{ id: 'i3', name: 'Wine', amountCents: 1500, participants: ['a', 'y'] }] },
+    { id: 'b', name: 'Dana', items: [{ id: 'i4', name: 'Museum', amountCents: 3000 }] },
+    { id: 'z', name: '', items: [] }
+  ],
+  paymentsMade: [{ id: 'pay1', from: 'b', to: 'a', amountCents: 1000, date: '2026-03-02' }]
+}
+
+describe('matchPeople', () => {
+  it('matches unique names, leaves new people new and flags the rest', () => {
+    expect(matchPeople(current.people, incoming.people)).toEqual([
+      { incomingId: 'a', name: 'anna', targetId: 'a', isAmbiguous: false },
+      { incomingId: 'x', name: 'Ben', targetId: 'b', isAmbiguous: false },
+      { incomingId: 'y', name: 'Chris', targetId: null, isAmbiguous: true },
+      { incomingId: 'b', name: 'Dana', targetId: null, isAmbiguous: false }
+    ])
+  })
+})
+
+describe('mergeStates', () => {
+  const mapping = { a: 'a', x: 'b', y: 'c2', b: null }
+
+  it('adds items once, remapping who shares them', () => {
+    const { state, addedItems, duplicateItems, skippedPayments } = mergeStates(current, incoming, mapping)
+    expect(addedItems).toBe(3)
+    expect(duplicateItems).toBe(1)
+    expect(skippedPayments).toBe(0)
+
+    expect(state.people.map(p => p.name)).toEqual(['Anna', 'Ben', 'Chris', 'chris ', 'Dana'])
+    expect(state.people[0]!.items.map(item => item.id)).toEqual(['i1', 'i2'])
+    expect(state.people[3]!.items[0]!.participants).toEqual(['a', 'c2'])
+  })
+
+  it('gives a new person a fresh id when theirs is taken, and follows it in payments', () => {
+    const { state } = mergeStates(current, incoming, mapping)
+    const dana = state.people[4]!
+    expect(dana.id).not.toBe('b')
+    expect(dana.items[0]!.id).toBe('i4')
+    expect(state.paymentsMade).toEqual([{ id: 'pay1', from: dana.id, to: 'a', amountCents: 1000, date: '2026-03-02' }])
+  })
+
+  it('keeps existing payment handles and fills in missing ones', () => {
+    const { state } = mergeStates(current, incoming, mapping)
+    expect(state.people[1]!.payments).toEqual({ venmo: '@ben', zelle: 'ben@example.com' })
+  })
+
+  it('marks items from a split in another currency with that currency', () => {
+    const { state } = mergeStates(current, { ...incoming, currency: 'EUR' }, mapping)
+    expect(state.people[0]!.items[1]).toEqual({ id: 'i2', name: 'Taxi', amountCents: 2000, currency: 'EUR' })
+  })
+
+  it('leaves out payments recorded in another currency', () => {
+    const yenPayment = { id: 'pay2', from: 'x', to: 'a', amountCents: 5000, date: '2026-03-03' }
+    const dollars: AppState = { ...current, currency: 'USD', paymentsMade: [{ id: 'pay0', from: 'b', to: 'a', amountCents: 2500, date: '2026-03-01' }] }
+    const yen: AppState = { ...incoming, currency: 'JPY', paymentsMade: [...incoming.paymentsMade!, yenPayment] }
+
+    const { state, skippedPayments } = mergeStates(dollars, yen, mapping)
+    expect(skippedPayments).toBe(2)
+    expect(state.paymentsMade).toEqual(dollars.paymentsMade)
+  })
+
+  it('leaves the current state untouched', () => {
+    const before = JSON.stringify(current)
+    mergeStates(current, incoming, mapping)
+    expect(JSON.stringify(current)).toBe(before)
+  })
+})
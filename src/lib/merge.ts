@@ -0,0 +1,181 @@
+import { DEFAULT_CURRENCY } from './currency'
+import type { AppState, LineItem, Person, Receipt } from '../types'
+
+/**
+ * Combines a second split of the same event into the current one. People are matched
+ * by name; items keep their ids through every link format, so an item both splits
+ * already had (say, one split was started from a copy of the other's link) is only
+ * added once.
+ */
+
+export interface PersonMatch {
+  incomingId: string
+  name: string
+  targetId: string | null // The current person they're the same as; null adds them as someone new
+  isAmbiguous: boolean // More than one person could be them, so someone has to pick
+}
+
+// Incoming person id → current person id, or null to add them as someone new
+export type PeopleMapping = Record<string, string | null>
+
+export interface MergeResult {
+  state: AppState
+  addedItems: number
+  duplicateItems: number
+  skippedPayments: number // Recorded in another event currency, which payments can't be marked with
+}
+
+function normalizeName(name: string): string {
+  return name.trim().toLowerCase()
+}
+
+function isBlank(person: Person): boolean {
+  return !person.name.trim() && person.items.length === 0 && !person.receipts?.length
+}
+
+function allItems(person: Person): LineItem[] {
+  return [...person.items, ...(person.receipts ?? []).flatMap(r => r.items)]
+}
+
+function freshId(taken: Set<string>): string {
+  let id: string
+  do {
+    id = Math.random().toString(36).substring(2, 9)
+  } while (taken.has(id))
+  taken.add(id)
+  return id
+}
+
+/**
+ * Pairs each person in the incoming split with whoever has the same name in the current
+ * one. Blank cards are left out. A name shared by several people on either side, or a
+ * person with no name, is ambiguous and left for someone to map by hand.
+ */
+export function matchPeople(current: Person[], incoming: Person[]): PersonMatch[] {
+  const incomingNames = incoming.map(person => normalizeName(person.name))
+
+  return incoming.filter(person => !isBlank(person)).map(person => {
+    const name = normalizeName(person.name)
+    const candidates = name ? current.filter(p => normalizeName(p.name) === name) : []
+    const isUnique = name !== '' && incomingNames.filter(n => n === name).length === 1
+
+    if (candidates.length === 1 && isUnique) {
+      return { incomingId: person.id, name: person.name, targetId: candidates[0]!.id, isAmbiguous: false }
+    }
+    return {
+      incomingId: person.id,
+      name: person.name,
+      targetId: null,
+      isAmbiguous: name === '' || candidates.length > 1 || (candidates.length === 1 && !isUnique)
+    }
+  })
+}
+
+/**
+ * Adds the incoming split's people, items and recorded payments to the current split.
+ * The current split's settings (currency, charges, event name) win; incoming items in
+ * another event currency keep their amounts by being marked with that currency. Recorded
+ * payments are always in the event currency, so ones from a split in another currency
+ * are left out and counted instead.
+ *
+ * @param mapping - Where each incoming person goes; people missing from it are skipped
+ */
+export function mergeStates(current: AppState, incoming: AppState, mapping: PeopleMapping): MergeResult {
+  const state = JSON.parse(JSON.stringify(current)) as AppState
+  const currency = state.currency ?? DEFAULT_CURRENCY
+  const incomingCurrency = incoming.currency ?? DEFAULT_CURRENCY
+
+  const personIds = new Set(state.people.map(p => p.id))
+  const itemIds = new Set(state.people.flatMap(p => allItems(p).map(item => item.id)))
+  const receiptIds = new Set(state.people.flatMap(p => (p.receipts ?? []).map(r => r.id)))
+
+  // Where each incoming person ends up, for moving items and remapping participants
+  const idMap = new Map<string, string>()
+  const targets = new Map<string, Person>()
+  for (const person of incoming.people) {
+    if (!(person.id in mapping)) continue
+    const targetId = mapping[person.id]
+    const existing = targetId ? state.people.find(p => p.id === targetId) : undefined
+    if (existing) {
+      idMap.set(person.id, existing.id)
+      targets.set(person.id, existing)
+      continue
+    }
+
+    const id = personIds.has(person.id) ? freshId(personIds) : person.id
+    personIds.add(id)
+    const added: Person = { ...person, id, items: [] }
+    delete added.receipts
+    state.people.push(added)
+    idMap.set(person.id, id)
+    targets.set(person.id, added)
+  }
+
+  let addedItems = 0
+  let duplicateItems = 0
+
+  // Copies the items neither split shares, pointed at the merged people
+  const takeItems = (items: LineItem[]): LineItem[] => items.flatMap(item => {
+    if (itemIds.has(item.id)) {
+      duplicateItems++
+      return []
+    }
+    itemIds.add(item.id)
+    addedItems++
+
+    const copy: LineItem = { ...item }
+    const itemCurrency = item.currency ?? incomingCurrency
+    copy.currency = itemCurrency === currency ? undefined : itemCurrency
+    if (item.participants) {
+      const participants = [...new Set(item.participants.flatMap(id => idMap.get(id) ?? []))]
+      copy.participants = participants.length > 0 ? participants : undefined
+    }
+    return [copy]
+  })
+
+  for (const person of incoming.people) {
+    const target = targets.get(person.id)
+    if (!target) continue
+
+    target.items.push(...takeItems(person.items))
+
+    for (const receipt of person.receipts ?? []) {
+      const existing = target.receipts?.find(r => r.id === receipt.id)
+      const items = takeItems(receipt.items)
+      if (existing) {
+        existing.items.push(...items)
+      } else if (items.length > 0) {
+        const id = receiptIds.has(receipt.id) ? freshId(receiptIds) : receipt.id
+        receiptIds.add(id)
+        const added: Receipt = { id, name: receipt.name, items }
+        target.receipts = [...(target.receipts ?? []), added]
+      }
+    }
+
+    // Fill in payment handles the current split doesn't have yet
+    if (person.payments) {
+      target.payments = { ...person.payments, ...target.payments }
+    }
+  }
+
+  let skippedPayments = 0
+  const paymentIds = new Set((state.paymentsMade ?? []).map(p => p.id))
+  for (const payment of incoming.paymentsMade ?? []) {
+    if (incomingCurrency !== currency) {
+      skippedPayments++
+      continue
+    }
+    const from = idMap.get(payment.from)
+    const to = idMap.get(payment.to)
+    if (paymentIds.has(payment.id) || !from || !to || from === to) continue
+    paymentIds.add(payment.id)
+    state.paymentsMade = [...(state.paymentsMade ?? []), { ...payment, from, to }]
+  }
+
+  // Rates are relative to the event currency, so they only carry over when that's the same
+  if (incoming.exchangeRates && incomingCurrency === currency) {
+    state.exchangeRates = { ...incoming.exchangeRates, ...state.exchangeRates }
+  }
+
+  return { state, addedItems, duplicateItems, skippedPayments }
+}
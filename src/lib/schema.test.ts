@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest'
+import { CURRENT_SCHEMA_VERSION, getSchemaVersion, migrateAppState } from './schema'
+
+describe('schema migrations', () => {
+  it('treats data without a valid version as version 0', () => {
+    expect(getSchemaVersion({ people: [] })).toBe(0)
+    expect(getSchemaVersion({ people: [], schemaVersion: 'one' })).toBe(0)
+    expect(getSchemaVersion({ people: [], schemaVersion: -1 })).toBe(0)
+    expect(getSchemaVersion({ people: [], schemaVersion: 1 })).toBe(1)
+  })
+
+  it('upgrades unversioned data to the current version', () => {
+    const migrated = migrateAppState({
+      people: [{ id: 'p1', name: 'Alice' }, { id: 'p2', name: 'Bob', items: [] }]
+    })
+
+    expect(migrated).toEqual({
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      people: [
+        { id: 'p1', name: 'Alice', items: [] },
+        { id: 'p2', name: 'Bob', items: [] }
+      ]
+    })
+  })
+
+  it('leaves current data untouched', () => {
+    const state = {
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      people: [{ id: 'p1', name: 'Alice', items: [{ id: 'i1', name: 'Lunch', amountCents: 1500 }] }],
+      currency: 'EUR'
+    }
+
+    expect(migrateAppState(state)).toEqual(state)
+  })
+
+  it('replaces currency symbols with ISO codes', () => {
+    const migrated = migrateAppState({
+      schemaVersion: 1,
+      currency: '€',
+      people: [{
+        id: 'p1',
+        name: 'Alice',
+        items: [
+          { id: 'i1', name: 'Pasta', amountCents: 1800 },
+          { id: 'i2', name: 'Taxi', amountCents: 2000, currency: '$' },
+          { id: 'i3', name: 'Souvenir', amountCents: 500, currency: 'XYZ' }
+        ]
+      }],
+      exchangeRates: { '$': 0.92, XYZ: 2 }
+    })
+
+    expect(migrated.currency).toBe('EUR')
+    expect(migrated.people[0]!.items.map(item => item.currency)).toEqual([undefined, 'USD', 'XYZ'])
+    expect(migrated.exchangeRates).toEqual({ USD: 0.92, XYZ: 2 })
+  })
+
+  it('stores yen and won in whole units', () => {
+    const migrated = migrateAppState({
+      schemaVersion: 1,
+      currency: '¥',
+      people: [{
+        id: 'p1',
+        name: 'Alice',
+        items: [{ id: 'i1', name: 'Ramen', amountCents: 98000 }],
+        receipts: [{ id: 'r1', name: 'Market', items: [{ id: 'i2', name: 'Kimchi', amountCents: 500000, currency: '₩' }] }]
+      }],
+      charges: { feeCents: 30000 },
+      paymentsMade: [{ id: 'pm1', from: 'p1', to: 'p1', amountCents: 50000, date: '2026-01-01' }]
+    })
+
+    expect(migrated.currency).toBe('JPY')
+    expect(migrated.people[0]!.items[0]!.amountCents).toBe(980)
+    expect(migrated.people[0]!.receipts![0]!.items[0]).toMatchObject({ amountCents: 5000, currency: 'KRW' })
+    expect(migrated.charges).toEqual({ feeCents: 300 })
+    expect(migrated.paymentsMade![0]!.amountCents).toBe(500)
+  })
+
+  it('keeps data from a newer version as it is', () => {
+    const state = { schemaVersion: CURRENT_SCHEMA_VERSION + 1, people: [] }
+
+    expect(migrateAppState(state)).toEqual(state)
+  })
+})
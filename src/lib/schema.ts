@@ -0,0 +1,140 @@
+import type { AppState } from '../types'
+
+/**
+ * Version of the AppState shape written by this build. Bump it and add a step to
+ * MIGRATIONS whenever a change would misread (or be misread by) older data.
+ */
+export const CURRENT_SCHEMA_VERSION = 2
+
+type Migration = (data: Record<string, unknown>) => Record<string, unknown>
+
+type Fields = Record<string, unknown>
+
+function isObject(value: unknown): value is Fields {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+// Version 1 stored currencies as these symbols; unknown values are kept as they are
+const LEGACY_CURRENCY_CODES: Record<string, string> = {
+  '$': 'USD',
+  '€': 'EUR',
+  '£': 'GBP',
+  '¥': 'JPY',
+  '₹': 'INR',
+  '₩': 'KRW',
+  'R$': 'BRL',
+  'CHF': 'CHF',
+  'kr': 'SEK',
+  '₽': 'RUB',
+}
+
+// The legacy currencies without a minor unit, whose amounts version 1 kept in hundredths
+const LEGACY_ZERO_DECIMAL_CODES = new Set(['JPY', 'KRW'])
+
+function legacyCurrencyCode(value: unknown): unknown {
+  return typeof value === 'string' ? (LEGACY_CURRENCY_CODES[value] ?? value) : value
+}
+
+function legacyAmount(amount: unknown, code: unknown): unknown {
+  return typeof amount === 'number' && LEGACY_ZERO_DECIMAL_CODES.has(code as string) ? Math.round(amount / 100) : amount
+}
+
+/**
+ * 1 → 2 for one line item: its currency becomes a code, and its amount is rescaled if
+ * that currency has no minor unit
+ */
+function migrateLegacyItem(item: unknown, eventCode: unknown): unknown {
+  if (!isObject(item)) return item
+  const code = item.currency === undefined ? eventCode : legacyCurrencyCode(item.currency)
+  return {
+    ...item,
+    ...(item.currency !== undefined && { currency: code }),
+    amountCents: legacyAmount(item.amountCents, code)
+  }
+}
+
+function migrateLegacyItems(items: unknown, eventCode: unknown): unknown {
+  return Array.isArray(items) ? items.map(item => migrateLegacyItem(item, eventCode)) : items
+}
+
+/**
+ * Each step upgrades data from the version it's keyed by to the next one
+ */
+const MIGRATIONS: Record<number, Migration> = {
+  // 0 → 1: data saved before versioning existed. Makes sure every person has the
+  // item list everything downstream assumes.
+  0: data => ({
+    ...data,
+    people: Array.isArray(data.people)
+      ? data.people.map(person =>
+          person && typeof person === 'object' && !Array.isArray((person as Record<string, unknown>).items)
+            ? { ...person, items: [] }
+            : person
+        )
+      : data.people
+  }),
+
+  // 1 → 2: currencies were symbols, and every amount was in hundredths. Now they're
+  // ISO 4217 codes, and amounts are in each currency's minor unit, so yen and won
+  // amounts are divided by 100.
+  1: data => {
+    const eventCode = legacyCurrencyCode(data.currency ?? '$')
+    const migrated: Record<string, unknown> = {
+      ...data,
+      people: Array.isArray(data.people)
+        ? data.people.map(person => {
+            if (!isObject(person)) return person
+            return {
+              ...person,
+              items: migrateLegacyItems(person.items, eventCode),
+              ...(Array.isArray(person.receipts) && {
+                receipts: person.receipts.map(receipt =>
+                  isObject(receipt) ? { ...receipt, items: migrateLegacyItems(receipt.items, eventCode) } : receipt
+                )
+              })
+            }
+          })
+        : data.people
+    }
+
+    if (data.currency !== undefined) migrated.currency = eventCode
+    if (isObject(data.exchangeRates)) {
+      migrated.exchangeRates = Object.fromEntries(
+        Object.entries(data.exchangeRates).map(([symbol, rate]) => [legacyCurrencyCode(symbol), rate])
+      )
+    }
+    if (isObject(data.charges) && data.charges.feeCents !== undefined) {
+      migrated.charges = { ...data.charges, feeCents: legacyAmount(data.charges.feeCents, eventCode) }
+    }
+    if (Array.isArray(data.paymentsMade)) {
+      migrated.paymentsMade = data.paymentsMade.map(payment =>
+        isObject(payment) ? { ...payment, amountCents: legacyAmount(payment.amountCents, eventCode) } : payment
+      )
+    }
+    return migrated
+  }
+}
+
+/**
+ * Schema version of stored data. Data from before versioning has none and counts as 0.
+ */
+export function getSchemaVersion(data: object): number {
+  const version = (data as Record<string, unknown>).schemaVersion
+  return typeof version === 'number' && Number.isInteger(version) && version >= 0 ? version : 0
+}
+
+/**
+ * Upgrades stored state one version at a time until it matches this build.
+ * Data written by a newer build is returned unchanged, since it can't be downgraded.
+ */
+export function migrateAppState(data: object): AppState {
+  let version = getSchemaVersion(data)
+  let migrated = data as Record<string, unknown>
+  while (version < CURRENT_SCHEMA_VERSION) {
+    const migrate = MIGRATIONS[version]
+    if (!migrate) throw new Error(`No migration from schema version ${version}`)
+    migrated = migrate(migrated)
+    version++
+  }
+  return { ...migrated, schemaVersion: version } as unknown as AppState
+}
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest'
+import { isValidAppState, validateAppState } from './validate'
+
+describe('validateAppState', () => {
+  it('accepts a full state', () => {
+    const state = {
+      schemaVersion: 1,
+      people: [{
+        id: 'p1',
+        name: 'Alice',
+        weight: 2,
+        attendance: { from: '2026-03-01' },
+        items: [{ id: 'i1', name: 'Hotel', amountCents: 24000, participants: ['p1'], date: '2026-03-01' }],
+        receipts: [{ id: 'r1', name: 'Dinner', items: [{ id: 'i2', name: 'Pasta', amountCents: 1800 }] }]
+      }],
+      currency: 'EUR',
+      exchangeRates: { USD: 0.9 },
+      charges: { taxPercent: 8, tipPercent: 18 },
+      paymentsMade: [{ id: 'x1', from: 'p1', to: 'p2', amountCents: 500, date: '2026-03-02' }],
+      settlementStrategy: 'minimal'
+    }
+    expect(validateAppState(state)).toEqual([])
+    expect(isValidAppState(state)).toBe(true)
+  })
+
+  it('reports where each problem is', () => {
+    const errors = validateAppState({
+      people: [
+        { id: 'p1', name: 'Alice', items: [{ id: 'i1', name: 'Hotel', amountCents: '240' }] },
+        { id: 'p2', name: 'Bob', items: [], weight: -1 }
+      ],
+      exchangeRates: { USD: 0 },
+      settlementStrategy: 'fastest'
+    })
+    expect(errors).toEqual([
+      'people[0].items[0].amountCents must be a number',
+      'people[1].weight must be a number of at least 0',
+      'exchangeRates.USD must be a number above 0',
+      'settlementStrategy must be "greedy" or "minimal"'
+    ])
+  })
+
+  it('rejects data that is not a state at all', () => {
+    expect(validateAppState(null)).toEqual(['The data must be an object'])
+    expect(validateAppState({})).toEqual(['people must be a list'])
+    expect(isValidAppState([])).toBe(false)
+  })
+})
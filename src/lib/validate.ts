@@ -0,0 +1,175 @@
+import type { AppState } from '../types'
+
+/**
+ * Structural validation of AppState, shared by the worker (for data sent to the API)
+ * and the client (for imported files). It checks shapes and types, not meaning: a
+ * participant id that matches nobody is allowed, since the app already ignores it.
+ */
+
+type Fields = Record<string, unknown>
+
+function isObject(value: unknown): value is Fields {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isNonNegativeNumber(value: unknown): boolean {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0
+}
+
+function checkOptionalString(fields: Fields, key: string, path: string, errors: string[]): void {
+  if (fields[key] !== undefined && typeof fields[key] !== 'string') {
+    errors.push(`${path}.${key} must be text`)
+  }
+}
+
+function checkLineItems(items: unknown, path: string, errors: string[]): void {
+  if (!Array.isArray(items)) {
+    errors.push(`${path} must be a list`)
+    return
+  }
+  items.forEach((item, index) => {
+    const itemPath = `${path}[${index}]`
+    if (!isObject(item)) {
+      errors.push(`${itemPath} must be an object`)
+      return
+    }
+    if (typeof item.id !== 'string') errors.push(`${itemPath}.id must be text`)
+    if (typeof item.name !== 'string') errors.push(`${itemPath}.name must be text`)
+    if (typeof item.amountCents !== 'number') errors.push(`${itemPath}.amountCents must be a number`)
+    checkOptionalString(item, 'currency', itemPath, errors)
+    checkOptionalString(item, 'date', itemPath, errors)
+    if (
+      item.participants !== undefined &&
+      (!Array.isArray(item.participants) || !item.participants.every(id => typeof id === 'string'))
+    ) {
+      errors.push(`${itemPath}.participants must be a list of person ids`)
+    }
+  })
+}
+
+function checkPerson(person: unknown, path: string, errors: string[]): void {
+  if (!isObject(person)) {
+    errors.push(`${path} must be an object`)
+    return
+  }
+  if (typeof person.id !== 'string') errors.push(`${path}.id must be text`)
+  if (typeof person.name !== 'string') errors.push(`${path}.name must be text`)
+  checkLineItems(person.items, `${path}.items`, errors)
+
+  if (person.weight !== undefined && !isNonNegativeNumber(person.weight)) {
+    errors.push(`${path}.weight must be a number of at least 0`)
+  }
+
+  if (person.attendance !== undefined) {
+    if (!isObject(person.attendance)) {
+      errors.push(`${path}.attendance must be an object`)
+    } else {
+      checkOptionalString(person.attendance, 'from', `${path}.attendance`, errors)
+      checkOptionalString(person.attendance, 'to', `${path}.attendance`, errors)
+    }
+  }
+
+  if (person.receipts !== undefined) {
+    if (!Array.isArray(person.receipts)) {
+      errors.push(`${path}.receipts must be a list`)
+      return
+    }
+    person.receipts.forEach((receipt, index) => {
+      const receiptPath = `${path}.receipts[${index}]`
+      if (!isObject(receipt)) {
+        errors.push(`${receiptPath} must be an object`)
+        return
+      }
+      if (typeof receipt.id !== 'string') errors.push(`${receiptPath}.id must be text`)
+      if (typeof receipt.name !== 'string') errors.push(`${receiptPath}.name must be text`)
+      checkLineItems(receipt.items, `${receiptPath}.items`, errors)
+    })
+  }
+}
+
+/**
+ * Checks that data has the shape of an AppState
+ *
+ * @returns A message for each problem found; empty when the data is valid
+ */
+export function validateAppState(data: unknown): string[] {
+  const errors: string[] = []
+  if (!isObject(data)) {
+    return ['The data must be an object']
+  }
+
+  if (!Array.isArray(data.people)) {
+    errors.push('people must be a list')
+  } else {
+    data.people.forEach((person, index) => checkPerson(person, `people[${index}]`, errors))
+  }
+
+  checkOptionalString(data, 'currency', 'state', errors)
+  checkOptionalString(data, 'eventName', 'state', errors)
+
+  if (data.exchangeRates !== undefined) {
+    if (!isObject(data.exchangeRates)) {
+      errors.push('exchangeRates must be an object')
+    } else {
+      for (const [code, rate] of Object.entries(data.exchangeRates)) {
+        if (typeof rate !== 'number' || !Number.isFinite(rate) || rate <= 0) {
+          errors.push(`exchangeRates.${code} must be a number above 0`)
+        }
+      }
+    }
+  }
+
+  if (data.charges !== undefined) {
+    if (!isObject(data.charges)) {
+      errors.push('charges must be an object')
+    } else {
+      for (const key of ['taxPercent', 'tipPercent', 'feeCents']) {
+        if (data.charges[key] !== undefined && !isNonNegativeNumber(data.charges[key])) {
+          errors.push(`charges.${key} must be a number of at least 0`)
+        }
+      }
+    }
+  }
+
+  if (data.paymentsMade !== undefined) {
+    if (!Array.isArray(data.paymentsMade)) {
+      errors.push('paymentsMade must be a list')
+    } else {
+      data.paymentsMade.forEach((payment, index) => {
+        const path = `paymentsMade[${index}]`
+        if (!isObject(payment)) {
+          errors.push(`${path} must be an object`)
+          return
+        }
+        for (const key of ['id', 'from', 'to', 'date']) {
+          if (typeof payment[key] !== 'string') errors.push(`${path}.${key} must be text`)
+        }
+        if (typeof payment.amountCents !== 'number') errors.push(`${path}.amountCents must be a number`)
+      })
+    }
+  }
+
+  if (
+    data.schemaVersion !== undefined &&
+    (typeof data.schemaVersion !== 'number' || !Number.isInteger(data.schemaVersion) || data.schemaVersion < 0)
+  ) {
+    errors.push('schemaVersion must be a whole number of at least 0')
+  }
+
+  if (
+    data.settlementStrategy !== undefined &&
+    data.settlementStrategy !== 'greedy' &&
+    data.settlementStrategy !== 'minimal'
+  ) {
+    errors.push('settlementStrategy must be "greedy" or "minimal"')
+  }
+
+  return errors
+}
+
+/**
+ * Validates AppState structure
+ */
+export function isValidAppState(data: unknown): data is AppState {
+  return validateAppState(data).length === 0
+}
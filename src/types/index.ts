@@ -1,9 +1,17 @@
 export interface LineItem {
   id: string
   name: string
-  amountCents: number
+  amountCents: number // In the currency's minor unit - see src/lib/currency.ts
+  participants?: string[] // Person ids sharing this item - everyone when omitted
+  currency?: string // ISO code of the currency the item was paid in - the event currency when omitted
+  date?: string // ISO date (YYYY-MM-DD) - dated items are shared by whoever was there that day
 }
 
+/**
+ * Editable fields of a line item, as emitted by the item inputs
+ */
+export type LineItemUpdates = Partial<Omit<LineItem, 'id'>>
+
 export type PaymentProvider = 'venmo' | 'zelle' | 'paypal' | 'cashapp' | 'other'
 
 export interface PaymentMethods {
@@ -14,23 +22,119 @@ export interface PaymentMethods {
   other?: string
 }
 
+/**
+ * Days a person was at the event, as inclusive ISO dates (YYYY-MM-DD).
+ * An open end means they were there from the start or until the end.
+ */
+export interface Attendance {
+  from?: string
+  to?: string
+}
+
+// An itemized receipt paid by one person; each item's participants are who consumed it
+export interface Receipt {
+  id: string
+  name: string
+  items: LineItem[]
+}
+
 export interface Person {
   id: string
   name: string
   items: LineItem[]
+  receipts?: Receipt[] // Receipts this person paid for
+  attendance?: Attendance // Only set when they weren't there the whole time
   payments?: PaymentMethods
+  weight?: number // Shares this person counts for when splitting (default 1)
 }
 
 export interface Settlement {
-  from: string
-  to: string
+  from: string // Person id of the payer
+  to: string // Person id of the recipient
+  amountCents: number
+}
+
+/**
+ * Leftover cents a person absorbed when an item didn't divide evenly
+ */
+export interface RoundingAdjustment {
+  personId: string
+  cents: number
+}
+
+/**
+ * A payment someone has already made to settle up, subtracted from their balance
+ */
+export interface RecordedPayment {
+  id: string
+  from: string // Person id of the payer
+  to: string // Person id of the recipient
   amountCents: number
+  date: string // ISO date (YYYY-MM-DD)
 }
 
+/**
+ * Tax, tip and fees on top of item prices. They were paid by whoever paid for the
+ * items and are shared in proportion to what each person consumed.
+ */
+export interface Charges {
+  taxPercent?: number
+  tipPercent?: number
+  feeCents?: number
+}
+
+/**
+ * A person's part of the tax, tip and fees, alongside the item subtotal it was based on
+ */
+export interface ChargeShare {
+  personId: string
+  subtotalCents: number
+  taxCents: number
+  tipCents: number
+  feeCents: number
+}
+
+/**
+ * A person's part of one item
+ */
+export interface ItemShare {
+  itemId: string
+  itemName: string
+  paidBy: string // Person id of whoever paid for the item
+  shareCents: number
+}
+
+/**
+ * How a person's balance was reached: what they paid, minus their share of everything,
+ * adjusted by tax, tip and fees and by payments already made
+ */
+export interface PersonBreakdown {
+  personId: string
+  paidCents: number // Items this person paid for
+  itemShares: ItemShare[]
+  chargesPaidCents: number // Tax, tip and fees credited to them as a payer
+  chargesOwedCents: number // Their part of the tax, tip and fees
+  paymentsSentCents: number
+  paymentsReceivedCents: number
+  balanceCents: number // Positive when they are owed money, negative when they owe
+}
+
+/**
+ * How balances are matched into payments:
+ * - greedy: largest debtor pays largest creditor, repeatedly
+ * - minimal: fewest possible payments (falls back to greedy for very large groups)
+ */
+export type SettlementStrategy = 'greedy' | 'minimal'
+
 export interface AppState {
+  schemaVersion?: number // Shape version the data was written in - see src/lib/schema.ts
   people: Person[]
-  currency?: string
+  currency?: string // ISO code - USD when omitted
   eventName?: string
+  settlementStrategy?: SettlementStrategy // Omitted means greedy
+  paymentsMade?: RecordedPayment[]
+  exchangeRates?: Record<string, number> // By ISO code: value of 1 unit of each other currency in the event currency
+  charges?: Charges
 }
 
 /**
@@ -43,6 +147,14 @@ export interface ApiListResponse {
   version: number
   createdAt: number
   updatedAt: number
+  viewId: string // ID for the list's read-only link
+}
+
+// A list loaded through its read-only link, without the ID needed to edit it
+export interface ApiViewResponse {
+  viewId: string
+  data: AppState
+  updatedAt: number
 }
 
 export interface ApiErrorResponse {
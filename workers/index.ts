@@ -1,7 +1,10 @@
 import type { D1Database } from '@cloudflare/workers-types'
 import {
   handleCreateList,
+  handleDeleteList,
+  handleForkList,
   handleGetList,
+  handleGetView,
   handleUpdateList,
 } from './routes/lists'
 
@@ -18,7 +21,7 @@ interface Env {
  */
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Methods': 'GET, POST, PUT, OPTIONS',
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
   'Access-Control-Allow-Headers': 'Content-Type',
 }
 
@@ -85,6 +88,28 @@ async function handleApiRequest(
       const response = await handleUpdateList(id.toUpperCase(), request, env.DB)
       return withCors(response)
     }
+
+    // DELETE /api/lists/:id - Delete list
+    if (method === 'DELETE' && id) {
+      const response = await handleDeleteList(id.toUpperCase(), env.DB)
+      return withCors(response)
+    }
+  }
+
+  const forkMatch = pathname.match(/^\/api\/lists\/([A-Z0-9]{26})\/fork$/i)
+
+  // POST /api/lists/:id/fork - Create a new list from an existing one
+  if (forkMatch && method === 'POST') {
+    const response = await handleForkList(forkMatch[1].toUpperCase(), request, env.DB)
+    return withCors(response)
+  }
+
+  const viewsMatch = pathname.match(/^\/api\/views\/([A-Z0-9]{26})$/i)
+
+  // GET /api/views/:viewId - Get list through its read-only link
+  if (viewsMatch && method === 'GET') {
+    const response = await handleGetView(viewsMatch[1].toUpperCase(), env.DB)
+    return withCors(response)
   }
 
   // Method not allowed or route not found
@@ -1,5 +1,6 @@
 import type { D1Database } from '@cloudflare/workers-types'
 import type { AppState } from '../../src/types'
+import { migrateAppState } from '../../src/lib/schema'
 
 /**
  * Database row type for settlement_lists table
@@ -10,6 +11,7 @@ export interface SettlementListRow {
   version: number
   created_at: number // Unix timestamp in ms
   updated_at: number // Unix timestamp in ms
+  view_id: string | null // ULID for the read-only link, null for lists created before it existed
 }
 
 /**
@@ -21,6 +23,7 @@ export interface SettlementList {
   version: number
   createdAt: number
   updatedAt: number
+  viewId: string | null
 }
 
 /**
@@ -49,15 +52,17 @@ export class NotFoundError extends Error {
 }
 
 /**
- * Converts a database row to a SettlementList object
+ * Converts a database row to a SettlementList object, upgrading data saved
+ * by older versions of the app to the current schema
  */
 function rowToList(row: SettlementListRow): SettlementList {
   return {
     id: row.id,
-    data: JSON.parse(row.data) as AppState,
+    data: migrateAppState(JSON.parse(row.data)),
     version: row.version,
     createdAt: row.created_at,
     updatedAt: row.updated_at,
+    viewId: row.view_id,
   }
 }
 
@@ -67,22 +72,24 @@ function rowToList(row: SettlementListRow): SettlementList {
  * @param db - D1 database instance
  * @param id - ULID for the new list
  * @param data - AppState to store
+ * @param viewId - ULID for the list's read-only link
  * @returns The created settlement list
  */
 export async function createList(
   db: D1Database,
   id: string,
-  data: AppState
+  data: AppState,
+  viewId: string
 ): Promise<SettlementList> {
   const now = Date.now()
   const jsonData = JSON.stringify(data)
 
   await db
     .prepare(
-      `INSERT INTO settlement_lists (id, data, version, created_at, updated_at)
-       VALUES (?, ?, 1, ?, ?)`
+      `INSERT INTO settlement_lists (id, data, version, created_at, updated_at, view_id)
+       VALUES (?, ?, 1, ?, ?, ?)`
     )
-    .bind(id, jsonData, now, now)
+    .bind(id, jsonData, now, now, viewId)
     .run()
 
   return {
@@ -91,6 +98,7 @@ export async function createList(
     version: 1,
     createdAt: now,
     updatedAt: now,
+    viewId,
   }
 }
 
@@ -117,6 +125,60 @@ export async function getList(
   return rowToList(row)
 }
 
+/**
+ * Gets a settlement list by the ID of its read-only link
+ *
+ * @param db - D1 database instance
+ * @param viewId - ULID of the read-only link
+ * @returns The settlement list or null if not found
+ */
+export async function getListByViewId(
+  db: D1Database,
+  viewId: string
+): Promise<SettlementList | null> {
+  const row = await db
+    .prepare('SELECT * FROM settlement_lists WHERE view_id = ?')
+    .bind(viewId)
+    .first<SettlementListRow>()
+
+  if (!row) {
+    return null
+  }
+
+  return rowToList(row)
+}
+
+/**
+ * Gives a list created before read-only links existed its view ID.
+ * If another request assigned one first, that one is kept and returned.
+ *
+ * @param db - D1 database instance
+ * @param id - ULID of the list
+ * @param viewId - ULID to assign if the list has none yet
+ * @returns The list's view ID
+ */
+export async function assignViewId(
+  db: D1Database,
+  id: string,
+  viewId: string
+): Promise<string> {
+  await db
+    .prepare('UPDATE settlement_lists SET view_id = ? WHERE id = ? AND view_id IS NULL')
+    .bind(viewId, id)
+    .run()
+
+  const row = await db
+    .prepare('SELECT view_id FROM settlement_lists WHERE id = ?')
+    .bind(id)
+    .first<{ view_id: string | null }>()
+
+  if (!row?.view_id) {
+    throw new NotFoundError(id)
+  }
+
+  return row.view_id
+}
+
 /**
  * Updates a settlement list with optimistic locking
  *
@@ -167,6 +229,7 @@ export async function updateList(
     version: newVersion,
     createdAt: 0, // Not returned by update, caller should have this
     updatedAt: now,
+    viewId: null, // Not returned by update, caller should have this
   }
 }
 
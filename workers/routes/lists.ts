@@ -1,10 +1,15 @@
 import type { D1Database } from '@cloudflare/workers-types'
 import type { AppState } from '../../src/types'
+import { isValidAppState } from '../../src/lib/validate'
+import { withoutItems } from '../../src/lib/fork'
 import { generateUlid, isValidUlid } from '../lib/ulid'
 import {
   createList,
   getList,
+  getListByViewId,
+  assignViewId,
   updateList,
+  deleteList,
   NotFoundError,
   VersionConflictError,
 } from '../lib/db'
@@ -21,12 +26,23 @@ interface UpdateListRequest {
   version: number
 }
 
+interface ForkListRequest {
+  keepItems?: boolean
+}
+
 interface ListResponse {
   id: string
   data: AppState
   version: number
   createdAt: number
   updatedAt: number
+  viewId: string
+}
+
+interface ViewResponse {
+  viewId: string
+  data: AppState
+  updatedAt: number
 }
 
 interface ErrorResponse {
@@ -60,41 +76,6 @@ function errorResponse(
   return jsonResponse<ErrorResponse>({ error: message, ...extras }, status)
 }
 
-/**
- * Validates AppState structure
- */
-function isValidAppState(data: unknown): data is AppState {
-  if (!data || typeof data !== 'object') return false
-
-  const state = data as Record<string, unknown>
-  if (!Array.isArray(state.people)) return false
-
-  for (const person of state.people) {
-    if (typeof person !== 'object' || !person) return false
-    const p = person as Record<string, unknown>
-    if (typeof p.id !== 'string' || typeof p.name !== 'string') return false
-    if (!Array.isArray(p.items)) return false
-
-    for (const item of p.items) {
-      if (typeof item !== 'object' || !item) return false
-      const i = item as Record<string, unknown>
-      if (
-        typeof i.id !== 'string' ||
-        typeof i.name !== 'string' ||
-        typeof i.amountCents !== 'number'
-      )
-        return false
-    }
-  }
-
-  if (state.currency !== undefined && typeof state.currency !== 'string')
-    return false
-  if (state.eventName !== undefined && typeof state.eventName !== 'string')
-    return false
-
-  return true
-}
-
 /**
  * POST /api/lists - Create a new list
  */
@@ -115,7 +96,8 @@ export async function handleCreateList(
   }
 
   const id = generateUlid()
-  const list = await createList(db, id, reqBody.data)
+  const viewId = generateUlid()
+  const list = await createList(db, id, reqBody.data, viewId)
 
   const response: ListResponse = {
     id: list.id,
@@ -123,6 +105,7 @@ export async function handleCreateList(
     version: list.version,
     createdAt: list.createdAt,
     updatedAt: list.updatedAt,
+    viewId,
   }
 
   return jsonResponse(response, 201)
@@ -144,17 +127,97 @@ export async function handleGetList(
     return errorResponse('List not found', 404)
   }
 
+  // Lists saved before read-only links existed get their view ID on first load
+  const viewId = list.viewId ?? await assignViewId(db, id, generateUlid())
+
   const response: ListResponse = {
     id: list.id,
     data: list.data,
     version: list.version,
     createdAt: list.createdAt,
     updatedAt: list.updatedAt,
+    viewId,
   }
 
   return jsonResponse(response)
 }
 
+/**
+ * GET /api/views/:viewId - Get a list through its read-only link.
+ * The response leaves out the list ID so viewers can't edit it.
+ */
+export async function handleGetView(
+  viewId: string,
+  db: D1Database
+): Promise<Response> {
+  if (!isValidUlid(viewId)) {
+    return errorResponse('Invalid view ID format', 400)
+  }
+
+  const list = await getListByViewId(db, viewId)
+  if (!list) {
+    return errorResponse('List not found', 404)
+  }
+
+  const response: ViewResponse = {
+    viewId,
+    data: list.data,
+    updatedAt: list.updatedAt,
+  }
+
+  return jsonResponse(response)
+}
+
+/**
+ * POST /api/lists/:id/fork - Create a new list from an existing one, with the
+ * same people and payment handles. Items are cleared unless keepItems is true.
+ */
+export async function handleForkList(
+  id: string,
+  request: Request,
+  db: D1Database
+): Promise<Response> {
+  if (!isValidUlid(id)) {
+    return errorResponse('Invalid list ID format', 400)
+  }
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return errorResponse('Invalid JSON body', 400)
+  }
+
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return errorResponse('Request body must be an object', 400, { code: 'VALIDATION_ERROR' })
+  }
+
+  const reqBody = body as ForkListRequest
+  if (reqBody.keepItems !== undefined && typeof reqBody.keepItems !== 'boolean') {
+    return errorResponse('Invalid keepItems field', 400, { code: 'VALIDATION_ERROR' })
+  }
+
+  const source = await getList(db, id)
+  if (!source) {
+    return errorResponse('List not found', 404)
+  }
+
+  const data = reqBody.keepItems ? source.data : withoutItems(source.data)
+  const viewId = generateUlid()
+  const list = await createList(db, generateUlid(), data, viewId)
+
+  const response: ListResponse = {
+    id: list.id,
+    data: list.data,
+    version: list.version,
+    createdAt: list.createdAt,
+    updatedAt: list.updatedAt,
+    viewId,
+  }
+
+  return jsonResponse(response, 201)
+}
+
 /**
  * PUT /api/lists/:id - Update a list
  */
@@ -195,11 +258,16 @@ export async function handleUpdateList(
       version: list.version,
       createdAt: fullList?.createdAt ?? 0,
       updatedAt: list.updatedAt,
+      viewId: fullList?.viewId ?? await assignViewId(db, id, generateUlid()),
     }
 
     return jsonResponse(response)
   } catch (error) {
     if (error instanceof NotFoundError) {
+      // A read-only link's ID is not a list ID, so the update finds nothing
+      if (await getListByViewId(db, id)) {
+        return errorResponse('This link is read-only', 403, { code: 'READ_ONLY' })
+      }
       return errorResponse('List not found', 404)
     }
     if (error instanceof VersionConflictError) {
@@ -212,3 +280,23 @@ export async function handleUpdateList(
     throw error
   }
 }
+
+/**
+ * DELETE /api/lists/:id - Delete a list, e.g. once it has moved back into its link.
+ * Its read-only link stops working too.
+ */
+export async function handleDeleteList(
+  id: string,
+  db: D1Database
+): Promise<Response> {
+  if (!isValidUlid(id)) {
+    return errorResponse('Invalid list ID format', 400)
+  }
+
+  const deleted = await deleteList(db, id)
+  if (!deleted) {
+    return errorResponse('List not found', 404)
+  }
+
+  return new Response(null, { status: 204 })
+}